@@ -0,0 +1,111 @@
+import { ReactNode, useRef } from "react";
+import { useAssetLoader } from "../hooks/useAssetLoader";
+import { AssetLoaderOptions, AssetLoaderReturn } from "../types";
+
+/**
+ * Props of the AssetGate component
+ */
+export interface AssetGateProps extends AssetLoaderOptions {
+  /** Content revealed once loading is complete */
+  children?: ReactNode;
+
+  /**
+   * Rendered until loading is complete, e.g. a splash screen
+   *
+   * Pass a function to receive the live loading state (progress, counts, groups...).
+   */
+  fallback?: ReactNode | ((state: AssetLoaderReturn) => ReactNode);
+
+  /**
+   * Only wait for this asset group instead of every tracked asset
+   *
+   * A group without any tracked asset does not hold the gate once scanning
+   * has started.
+   */
+  group?: string;
+
+  /**
+   * Mount the children hidden while loading, so the assets they render are
+   * tracked too; they are revealed in place once loading is complete
+   * @default false - Children are only mounted after completion
+   */
+  preloadChildren?: boolean;
+}
+
+/**
+ * Renders its children once the tracked assets are loaded, and a fallback until then
+ *
+ * Wraps the classic splash screen pattern around `useAssetLoader` into a single
+ * component. It accepts every option of the hook, plus:
+ * - **`fallback`**: What to show while loading; a function receives the hook's state
+ * - **`group`**: Reveal the children as soon as one group (e.g. `"critical"`) is ready
+ * - **`preloadChildren`**: Mount the children hidden, so their own images, videos and
+ *   fonts are part of what is waited on
+ *
+ * Once revealed, the children stay rendered, even when assets added afterwards
+ * make loading incomplete again.
+ *
+ * @param props - Hook options and gate settings
+ *
+ * @example
+ * ```tsx
+ * // Splash screen until every asset is ready
+ * <AssetGate fallback={({ progress }) => <SplashScreen progress={progress} />}>
+ *   <MainApplication />
+ * </AssetGate>
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Reveal once the hero is ready; the rest keeps loading in the background
+ * <AssetGate
+ *   group="critical"
+ *   groups={{ critical: ".hero" }}
+ *   preloadChildren
+ *   fallback={<Spinner />}
+ * >
+ *   <LandingPage />
+ * </AssetGate>
+ * ```
+ *
+ * @since 1.3.0
+ */
+export function AssetGate({
+  children,
+  fallback = null,
+  group,
+  preloadChildren = false,
+  ...options
+}: AssetGateProps) {
+  const state = useAssetLoader(options);
+
+  // Once revealed, the children stay: assets they add later (with `observe` or
+  // `network`) would otherwise swap them back for the fallback and remount them
+  const hasBeenReady = useRef(false);
+  if (
+    group === undefined
+      ? state.isComplete
+      : (state.groups[group]?.isComplete ?? state.status !== "idle")
+  ) {
+    hasBeenReady.current = true;
+  }
+  const isReady = hasBeenReady.current;
+
+  let fallbackContent: ReactNode = null;
+  if (!isReady) {
+    fallbackContent =
+      typeof fallback === "function" ? fallback(state) : fallback;
+  }
+
+  if (!preloadChildren) {
+    return <>{isReady ? children : fallbackContent}</>;
+  }
+
+  // The wrapper is layout-neutral once revealed
+  return (
+    <>
+      {fallbackContent}
+      <div style={{ display: isReady ? "contents" : "none" }}>{children}</div>
+    </>
+  );
+}
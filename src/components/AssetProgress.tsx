@@ -0,0 +1,41 @@
+import { ReactNode } from "react";
+import { useAssetLoader } from "../hooks/useAssetLoader";
+import { AssetLoaderOptions, AssetLoaderReturn } from "../types";
+
+/**
+ * Props of the AssetProgress component
+ */
+export interface AssetProgressProps extends AssetLoaderOptions {
+  /** Renders the loading state: progress, counts, groups, status and the imperative API */
+  children: (state: AssetLoaderReturn) => ReactNode;
+}
+
+/**
+ * Headless progress component: tracks assets and hands the state to a render prop
+ *
+ * Accepts every option of `useAssetLoader` and renders nothing of its own, so
+ * any markup or animation library can be used for the actual bar.
+ *
+ * @param props - Hook options and the render function
+ *
+ * @example
+ * ```tsx
+ * <AssetProgress scan={["images", "fonts"]}>
+ *   {({ progress, loadedCount, totalCount, isComplete }) =>
+ *     isComplete ? null : (
+ *       <div className="progress-bar" role="progressbar" aria-valuenow={progress}>
+ *         <div className="progress-fill" style={{ width: `${progress}%` }} />
+ *         <span>{loadedCount} of {totalCount} assets ready</span>
+ *       </div>
+ *     )
+ *   }
+ * </AssetProgress>
+ * ```
+ *
+ * @since 1.3.0
+ */
+export function AssetProgress({ children, ...options }: AssetProgressProps) {
+  const state = useAssetLoader(options);
+
+  return <>{children(state)}</>;
+}
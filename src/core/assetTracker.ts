@@ -0,0 +1,1076 @@
+import { isDeferredLazyImage, scanImages } from "../utils/imageScanner";
+import { scanVideos } from "../utils/videoScanner";
+import { scanAudios } from "../utils/audioScanner";
+import { observeAssets, ObservedAssetElement } from "../utils/assetObserver";
+import { calculateByteWeightedProgress } from "../utils/assetWeight";
+import {
+  preloadFont,
+  preloadImage,
+  preloadVideo,
+} from "../utils/assetPreloader";
+import { guardAssetUpdates } from "../utils/trackedAsset";
+import { DEFAULT_RETRY_TYPES } from "../utils/retryPolicy";
+import { preloadManifest } from "../utils/manifestLoader";
+import { createAssetFilter } from "../utils/assetFilter";
+import { createLoadTimingReport } from "../utils/timingReport";
+import { getScanners } from "./scannerRegistry";
+import {
+  AssetCounts,
+  AssetGroupState,
+  AssetReport,
+  AssetSnapshot,
+  AssetTrackerOptions,
+  RetryOptions,
+  ScanType,
+  TrackedAsset,
+} from "../types";
+
+/**
+ * Resolves the `root` option to the node that scanners should search
+ *
+ * Returns `null` when a root was requested but is not attached (e.g. an unset ref).
+ */
+function resolveRoot(root: AssetTrackerOptions["root"]): ParentNode | null {
+  if (root === undefined) {
+    return document;
+  }
+  if (root === null || root instanceof Element) {
+    return root;
+  }
+  return root.current;
+}
+
+/**
+ * Resolves the timeout for an asset type from the `timeouts` option
+ *
+ * Returns `undefined` when nothing is configured so each scanner keeps its own default.
+ */
+function resolveTimeout(
+  options: AssetTrackerOptions,
+  type: ScanType
+): number | undefined {
+  const timeouts = options.timeouts;
+  return timeouts?.[type] ?? timeouts?.default;
+}
+
+/**
+ * Resolves the retry policy for an asset type
+ *
+ * Returns `undefined` when retries are off or the type is not listed in `retry.types`.
+ */
+function resolveRetry(
+  options: AssetTrackerOptions,
+  type: ScanType
+): RetryOptions | undefined {
+  const { retry } = options;
+  const types: ScanType[] = retry?.types ?? DEFAULT_RETRY_TYPES;
+
+  return retry && types.includes(type) ? retry : undefined;
+}
+
+/**
+ * Asset types left out of `scan: "all"`, which must be listed to be tracked
+ */
+const OPT_IN_SCAN_TYPES: ScanType[] = ["network", "scripts"];
+
+/**
+ * Checks whether an asset type is enabled by the `scan` and `ignore` options
+ */
+function shouldScanType(options: AssetTrackerOptions, type: ScanType): boolean {
+  // Parse options with defaults: scan everything, ignore nothing
+  const { scan = "all", ignore = [] } = options;
+
+  const isScanned =
+    scan === "all" ? !OPT_IN_SCAN_TYPES.includes(type) : scan.includes(type);
+
+  return isScanned && !ignore.includes(type);
+}
+
+/**
+ * Counts a list of assets by status
+ */
+function countAssets(assets: TrackedAsset[]): AssetCounts {
+  const counts: AssetCounts = {
+    totalCount: assets.length,
+    loadedCount: 0,
+    failedCount: 0,
+    timedOutCount: 0,
+    retryingCount: 0,
+  };
+
+  assets.forEach((asset) => {
+    if (asset.status === "loaded") counts.loadedCount++;
+    if (asset.status === "failed") counts.failedCount++;
+    if (asset.status === "timed-out") counts.timedOutCount++;
+    if (asset.status === "retrying") counts.retryingCount++;
+  });
+
+  return counts;
+}
+
+/**
+ * Counts a list of assets by status, separately for each asset type
+ */
+function countAssetsByType(
+  assets: TrackedAsset[]
+): Record<string, AssetCounts> {
+  const assetsByType: Record<string, TrackedAsset[]> = {};
+  assets.forEach((asset) => {
+    (assetsByType[asset.type] ??= []).push(asset);
+  });
+
+  const byType: Record<string, AssetCounts> = {};
+  Object.entries(assetsByType).forEach(([type, entries]) => {
+    byType[type] = countAssets(entries);
+  });
+
+  return byType;
+}
+
+/**
+ * Calculates progress from a list of assets and their counters
+ *
+ * Count-based by default; with `"bytes"` weighting, large files move the bar
+ * far more than small ones.
+ */
+function calculateProgress(
+  assets: TrackedAsset[],
+  counts: AssetCounts,
+  weighting: AssetTrackerOptions["weighting"]
+): number {
+  if (weighting === "bytes") {
+    return calculateByteWeightedProgress(assets);
+  }
+
+  // Completed = loaded + failed + timed out (all count as "finished")
+  const settledCount =
+    counts.loadedCount + counts.failedCount + counts.timedOutCount;
+
+  return (settledCount / counts.totalCount) * 100;
+}
+
+/**
+ * Resolves the group of a tracked element
+ *
+ * The closest `data-asset-group` attribute wins, then the first `groups`
+ * selector matching the element or one of its ancestors.
+ */
+function resolveGroup(
+  element: TrackedAsset["element"],
+  groups: AssetTrackerOptions["groups"]
+): string | undefined {
+  if (!(element instanceof Element)) {
+    return undefined;
+  }
+
+  const tagged = element.closest("[data-asset-group]");
+  if (tagged) {
+    return tagged.getAttribute("data-asset-group") ?? undefined;
+  }
+
+  const match = Object.entries(groups ?? {}).find(
+    ([, selector]) => element.closest(selector) !== null
+  );
+  return match?.[0];
+}
+
+/**
+ * Surfaces an exception thrown by a scanner without interrupting the scan,
+ * like an uncaught error (console, `window.onerror`)
+ */
+function reportScannerError(error: unknown): void {
+  if (typeof reportError === "function") {
+    reportError(error);
+  } else {
+    setTimeout(() => {
+      throw error;
+    });
+  }
+}
+
+/**
+ * Duration of `smoothing: true`, in milliseconds
+ */
+const DEFAULT_SMOOTHING_DURATION = 400;
+
+/**
+ * Minimum time between two snapshots published for media `progress` events,
+ * in milliseconds
+ */
+const MEDIA_PROGRESS_INTERVAL = 250;
+
+/**
+ * Resolves the `smoothing` option to a duration in milliseconds, or `0` when off
+ *
+ * Smoothing needs animation frames, so it is off outside the browser.
+ */
+function resolveSmoothing(smoothing: AssetTrackerOptions["smoothing"]): number {
+  if (!smoothing || typeof requestAnimationFrame === "undefined") {
+    return 0;
+  }
+  return smoothing === true ? DEFAULT_SMOOTHING_DURATION : smoothing;
+}
+
+/**
+ * Builds the snapshot published before tracking starts
+ *
+ * It only depends on the options, so it is the same on the server and during
+ * hydration. When a manifest is given, its size is the `totalCount` hint.
+ */
+function createInitialSnapshot(options: AssetTrackerOptions): AssetSnapshot {
+  return {
+    status: "idle",
+    totalCount: options.manifest?.length ?? 0,
+    loadedCount: 0,
+    failedCount: 0,
+    timedOutCount: 0,
+    retryingCount: 0,
+    assets: [],
+    progress: 0,
+    displayProgress: 0,
+    isComplete: false,
+    byType: {},
+    groups: {},
+  };
+}
+
+/**
+ * Framework-agnostic engine that runs the scanners and publishes loading state
+ *
+ * `useAssetLoader` is a thin React binding over this class; use it directly in
+ * vanilla pages, other frameworks, or bootstrap scripts that run before any UI.
+ *
+ * **Lifecycle:**
+ * 1. **Create**: `new AssetTracker(options)` does not touch the DOM, so it is safe
+ *    during server rendering
+ * 2. **Start**: `start()` scans the page and preloads the manifest (and starts
+ *    observing the page in observe mode)
+ * 3. **Read**: `getSnapshot()` returns the current state, `subscribe()` notifies on
+ *    every change, and `whenComplete()` resolves once every asset has settled
+ * 4. **Stop**: `stop()` removes every listener, timer and observer; the last
+ *    snapshot stays readable
+ *
+ * `loadImage()`, `loadFont()` and `loadVideo()` calls made while the tracker is not
+ * running are queued and replayed by the next `start()`, after the initial scan.
+ *
+ * Snapshots are immutable and only replaced when something changes, so they can
+ * be passed straight to `useSyncExternalStore` or compared by reference.
+ *
+ * When the initial scan finds nothing to track, the tracker completes right away
+ * with a progress of 100.
+ *
+ * @example
+ * ```typescript
+ * // Analytics bootstrap script, no framework involved
+ * const tracker = new AssetTracker({ scan: ["images", "fonts"] });
+ *
+ * tracker.subscribe(() => {
+ *   progressBar.style.width = `${tracker.getSnapshot().progress}%`;
+ * });
+ * tracker.start();
+ *
+ * const report = await tracker.whenComplete();
+ * analytics.track("Assets Loaded", {
+ *   loaded: report.loadedCount,
+ *   failed: report.failedCount,
+ *   duration: report.duration,
+ * });
+ * tracker.stop();
+ * ```
+ *
+ * @since 1.3.0
+ */
+export class AssetTracker {
+  private readonly options: AssetTrackerOptions;
+
+  /** Element-level filter built from the `include`/`exclude`/`filter` options */
+  private readonly shouldTrack: (target: Element | FontFace) => boolean;
+
+  /** Every tracked asset, in discovery order */
+  private assets: TrackedAsset[] = [];
+
+  /** Snapshot published before tracking starts, also used for server rendering */
+  private readonly initialSnapshot: AssetSnapshot;
+
+  private snapshot: AssetSnapshot;
+
+  private readonly listeners = new Set<() => void>();
+
+  /** Pending `whenComplete()` calls */
+  private completionWaiters: Array<{
+    resolve: (report: AssetReport) => void;
+    reject: (reason: unknown) => void;
+  }> = [];
+
+  /** Report of the current completion, cleared when new assets appear */
+  private report: AssetReport | null = null;
+
+  /** When the current scan started, in milliseconds from `performance.timeOrigin` */
+  private startTime = 0;
+
+  /** Set while the initial scan runs, so its updates are published at once */
+  private isScanning = false;
+
+  /** Whether the initial scan has run since the last start */
+  private hasScanned = false;
+
+  /** Cancels the listeners and timers of the current scan and of preloads */
+  private scanController: AbortController | null = null;
+
+  /** Per-element controllers of observe mode, aborted when an element is untracked */
+  private readonly elementControllers = new Map<Element, AbortController>();
+
+  /**
+   * DOM elements currently being tracked
+   *
+   * Lets observe mode skip elements that are already counted.
+   */
+  private readonly trackedElements = new Set<Element>();
+
+  /** Ids of entries dropped by observe mode or a restart, whose updates are ignored */
+  private readonly retiredAssetIds = new Set<number>();
+
+  /** Dispose functions returned by the scanners of the current scan */
+  private scannerDisposers: Array<() => void> = [];
+
+  /** Disconnects the observe-mode MutationObserver */
+  private disconnectObserver: (() => void) | null = null;
+
+  /** Highest progress since the last start; `displayProgress` never goes below it */
+  private displayTarget = 0;
+
+  /** Published `displayProgress`, trailing `displayTarget` while smoothing */
+  private displayProgress = 0;
+
+  /** Pending animation frame of the `smoothing` easing */
+  private animationFrame: number | null = null;
+
+  /** Publishes completion once `minDuration` has elapsed */
+  private minDurationTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /** Publishes the buffered data of pending media, at most once per interval */
+  private mediaProgressTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Imperative loads requested while the tracker was not running
+   *
+   * Children's mount effects run before the hook's, so their loads would
+   * otherwise be retired by the `start()` that follows.
+   */
+  private queuedLoads: Array<(signal: AbortSignal) => void> = [];
+
+  /**
+   * @param options - Which assets to track and how; see `AssetTrackerOptions`
+   */
+  constructor(options: AssetTrackerOptions = {}) {
+    this.options = options;
+    this.shouldTrack = createAssetFilter(options);
+    this.initialSnapshot = createInitialSnapshot(options);
+    this.snapshot = this.initialSnapshot;
+  }
+
+  /**
+   * Registers a listener called after every state change
+   *
+   * Bound to the instance, so it can be passed around on its own.
+   *
+   * @returns Function that removes the listener
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Returns the current loading state
+   *
+   * Bound to the instance, and returns the same object until the state changes.
+   */
+  getSnapshot = (): AssetSnapshot => this.snapshot;
+
+  /**
+   * Returns the `"idle"` snapshot used for server rendering and hydration
+   *
+   * Bound to the instance. It never changes, and only depends on the options,
+   * so the server and the client render the same markup.
+   */
+  getServerSnapshot = (): AssetSnapshot => this.initialSnapshot;
+
+  /**
+   * Resolves once every tracked asset has settled
+   *
+   * Resolves immediately when tracking is already complete. Rejects with an
+   * `AbortError` if the tracker is stopped first.
+   */
+  whenComplete(): Promise<AssetReport> {
+    if (this.report) {
+      return Promise.resolve(this.report);
+    }
+
+    return new Promise((resolve, reject) => {
+      this.completionWaiters.push({ resolve, reject });
+    });
+  }
+
+  /**
+   * Scans the page, preloads the manifest and starts tracking
+   *
+   * Calling it again restarts tracking from an empty list, like `reset()`.
+   * Does nothing outside the browser, where the snapshot stays `"idle"`.
+   */
+  start(): void {
+    if (typeof document === "undefined") {
+      return;
+    }
+
+    this.teardown();
+
+    this.trackedElements.clear();
+    this.retireAssets(() => true);
+    this.hasScanned = false;
+    this.report = null;
+    this.startTime = performance.now();
+    this.displayTarget = 0;
+    this.displayProgress = 0;
+
+    const controller = new AbortController();
+    this.scanController = controller;
+
+    // Publish the whole initial scan as a single change
+    this.isScanning = true;
+    let scanned = false;
+    try {
+      scanned =
+        this.options.manifestMode === "replace" ||
+        this.scanAssets(controller.signal);
+      this.loadManifest(controller.signal);
+
+      const queuedLoads = this.queuedLoads;
+      this.queuedLoads = [];
+      queuedLoads.forEach((load) => load(controller.signal));
+    } finally {
+      // Otherwise an exception would leave every later update unpublished
+      this.isScanning = false;
+    }
+    this.hasScanned = scanned;
+    this.update();
+
+    // "replace" mode only tracks the manifest, so the DOM is left alone
+    if (this.options.observe && this.options.manifestMode !== "replace") {
+      this.observe();
+    }
+  }
+
+  /**
+   * Stops tracking: removes every listener, timer and observer
+   *
+   * The last snapshot stays available. Pending `whenComplete()` calls and
+   * imperative preloads reject with an `AbortError`.
+   */
+  stop(): void {
+    this.teardown();
+
+    const waiters = this.completionWaiters;
+    this.completionWaiters = [];
+    waiters.forEach(({ reject }) =>
+      reject(new DOMException("Tracking stopped", "AbortError"))
+    );
+  }
+
+  /**
+   * Clears every tracked asset and counter, then scans again
+   *
+   * Listeners and timers from before the reset are cancelled, and pending
+   * preloads reject with an `AbortError`.
+   */
+  reset(): void {
+    this.start();
+  }
+
+  /**
+   * Preloads an off-DOM image and folds it into the tracked assets
+   *
+   * Like every imperative load, it waits for the next `start()` when the
+   * tracker is not running.
+   */
+  loadImage(src: string): Promise<void> {
+    return this.whenRunning((signal) =>
+      preloadImage(src, this.reportAsset, {
+        timeout: resolveTimeout(this.options, "images"),
+        retry: resolveRetry(this.options, "images"),
+        signal,
+      })
+    );
+  }
+
+  /** Loads a web font (declared or from `src`) and folds it into the tracked assets */
+  loadFont(fontFamily: string, src?: string): Promise<void> {
+    return this.whenRunning((signal) =>
+      preloadFont(fontFamily, this.reportAsset, {
+        src,
+        timeout: resolveTimeout(this.options, "fonts"),
+        signal,
+      })
+    );
+  }
+
+  /** Preloads an off-DOM video and folds it into the tracked assets */
+  loadVideo(src: string): Promise<void> {
+    return this.whenRunning((signal) =>
+      preloadVideo(src, this.reportAsset, {
+        timeout: resolveTimeout(this.options, "videos"),
+        retry: resolveRetry(this.options, "videos"),
+        signal,
+      })
+    );
+  }
+
+  /**
+   * Runs an imperative load with the current scan's signal, or queues it until
+   * the next `start()` when the tracker is not running
+   */
+  private whenRunning(
+    load: (signal: AbortSignal) => Promise<void>
+  ): Promise<void> {
+    if (this.scanController) {
+      return load(this.scanController.signal);
+    }
+
+    return new Promise((resolve, reject) => {
+      this.queuedLoads.push((signal) => load(signal).then(resolve, reject));
+    });
+  }
+
+  /**
+   * Receives asset updates from every scanner
+   *
+   * New pending entries are appended; any other update replaces the entry with
+   * the same id (e.g. a responsive image that restarts with a new candidate).
+   * Updates for entries that were removed in the meantime (an element unmounted
+   * or given a new source in observe mode) are dropped.
+   */
+  private reportAsset = (asset: TrackedAsset): void => {
+    if (this.retiredAssetIds.has(asset.id)) {
+      return;
+    }
+
+    if (asset.status === "pending" && asset.element instanceof Element) {
+      this.trackedElements.add(asset.element);
+    }
+
+    // Scanners know nothing about groups, so tag every update here
+    const group =
+      asset.group ?? resolveGroup(asset.element, this.options.groups);
+    if (group !== undefined) {
+      asset = { ...asset, group };
+    }
+
+    const previous = this.assets.find((entry) => entry.id === asset.id);
+    if (!previous) {
+      if (asset.status !== "pending") {
+        return;
+      }
+      this.assets = [...this.assets, asset];
+      this.watchBufferedProgress(asset);
+    } else {
+      this.assets = this.assets.map((entry) =>
+        entry.id === asset.id ? asset : entry
+      );
+    }
+
+    // Outcome callbacks run before the snapshot, so they come ahead of onProgress
+    if (asset.status !== previous?.status) {
+      this.emitAssetOutcome(asset);
+    }
+
+    this.update();
+  };
+
+  /**
+   * Republishes progress while a pending media element buffers, with `"bytes"` weighting
+   *
+   * Its buffered fraction only counts when the snapshot is rebuilt, which would
+   * otherwise wait for another asset to change.
+   */
+  private watchBufferedProgress(asset: TrackedAsset): void {
+    const media = asset.element;
+    if (
+      this.options.weighting !== "bytes" ||
+      !(media instanceof HTMLMediaElement)
+    ) {
+      return;
+    }
+
+    media.addEventListener(
+      "progress",
+      () => {
+        const current = this.assets.find((entry) => entry.id === asset.id);
+        if (
+          current?.status !== "pending" ||
+          this.mediaProgressTimer !== null
+        ) {
+          return;
+        }
+
+        this.mediaProgressTimer = setTimeout(() => {
+          this.mediaProgressTimer = null;
+          this.update();
+        }, MEDIA_PROGRESS_INTERVAL);
+      },
+      { signal: this.scanController?.signal }
+    );
+  }
+
+  /** Calls `onAssetLoad` or `onAssetError` for an asset that has just settled */
+  private emitAssetOutcome(asset: TrackedAsset): void {
+    const { onAssetLoad, onAssetError } = this.options;
+
+    if (asset.status === "loaded") {
+      onAssetLoad?.(asset);
+    } else if (asset.status === "failed" || asset.status === "timed-out") {
+      onAssetError?.(asset);
+    }
+  }
+
+  /** Drops entries from the list and ignores any later update for them */
+  private retireAssets(shouldRetire: (asset: TrackedAsset) => boolean): void {
+    this.assets = this.assets.filter((asset) => {
+      if (!shouldRetire(asset)) {
+        return true;
+      }
+      this.retiredAssetIds.add(asset.id);
+      return false;
+    });
+  }
+
+  /**
+   * Recalculates the snapshot from the asset list and notifies listeners
+   *
+   * Progress and completion only move while assets are tracked; an empty list
+   * counts as complete once the initial scan has run.
+   */
+  private update(): void {
+    if (this.isScanning) {
+      return;
+    }
+
+    const { assets } = this;
+    const {
+      totalCount,
+      loadedCount,
+      failedCount,
+      timedOutCount,
+      retryingCount,
+    } = countAssets(assets);
+    const byType = countAssetsByType(assets);
+    const groups = this.calculateGroups();
+
+    // Completed = loaded + failed + timed out (all count as "finished")
+    const settledCount = loadedCount + failedCount + timedOutCount;
+
+    // Read before the snapshot is replaced, to tell whether onProgress should fire
+    const previousProgress = this.snapshot.progress;
+
+    let { progress, isComplete } = this.snapshot;
+    if (totalCount > 0) {
+      progress = calculateProgress(
+        assets,
+        { totalCount, loadedCount, failedCount, timedOutCount, retryingCount },
+        this.options.weighting
+      );
+      isComplete = settledCount === totalCount;
+
+      // A reloading media element loses its buffered data; keep the bar in place
+      if (retryingCount > 0) {
+        progress = Math.max(progress, this.snapshot.progress);
+      }
+    } else {
+      progress = this.hasScanned ? 100 : 0;
+      isComplete = this.hasScanned;
+    }
+
+    // Hold completion back until the minimum duration has elapsed
+    const remaining =
+      (this.options.minDuration ?? 0) - (performance.now() - this.startTime);
+    if (isComplete && remaining > 0) {
+      isComplete = false;
+      this.minDurationTimer ??= setTimeout(() => {
+        this.minDurationTimer = null;
+        this.update();
+      }, remaining);
+    }
+
+    this.displayTarget = Math.max(this.displayTarget, progress);
+    if (resolveSmoothing(this.options.smoothing) > 0) {
+      this.animateDisplayProgress();
+    } else {
+      this.displayProgress = this.displayTarget;
+    }
+
+    this.snapshot = {
+      status: isComplete ? "complete" : "loading",
+      totalCount,
+      loadedCount,
+      failedCount,
+      timedOutCount,
+      retryingCount,
+      assets,
+      progress,
+      displayProgress: this.displayProgress,
+      isComplete,
+      byType,
+      groups,
+    };
+
+    let completedReport: AssetReport | null = null;
+    if (!isComplete) {
+      this.report = null;
+    } else if (!this.report) {
+      // Up to the last asset settling, so a `minDuration` hold is left out
+      const lastEndTime = assets.reduce(
+        (latest, asset) => Math.max(latest, asset.endTime ?? latest),
+        this.startTime
+      );
+
+      this.report = {
+        totalCount,
+        loadedCount,
+        failedCount,
+        timedOutCount,
+        retryingCount,
+        assets,
+        byType,
+        duration: lastEndTime - this.startTime,
+      };
+
+      completedReport = this.report;
+
+      const waiters = this.completionWaiters;
+      this.completionWaiters = [];
+      waiters.forEach(({ resolve }) => resolve(this.report as AssetReport));
+    }
+
+    this.listeners.forEach((listener) => listener());
+
+    if (progress !== previousProgress) {
+      this.options.onProgress?.(progress, this.snapshot);
+    }
+
+    // Listeners see the completed snapshot before the report goes out
+    if (completedReport && this.options.onComplete) {
+      this.options.onComplete(
+        createLoadTimingReport(
+          completedReport,
+          this.startTime,
+          this.options.slowestCount
+        )
+      );
+    }
+  }
+
+  /**
+   * Eases `displayProgress` towards `displayTarget`, one animation frame at a time
+   *
+   * Each frame closes the same share of the remaining gap for the elapsed time,
+   * so a jump is covered in about the `smoothing` duration whatever the frame rate.
+   * Frames publish a snapshot with only `displayProgress` changed.
+   */
+  private animateDisplayProgress(): void {
+    if (this.animationFrame !== null) {
+      return;
+    }
+
+    const duration = resolveSmoothing(this.options.smoothing);
+    let lastTime = performance.now();
+
+    const step = (time: number) => {
+      this.animationFrame = null;
+
+      const elapsed = Math.max(0, time - lastTime);
+      lastTime = time;
+
+      const gap = this.displayTarget - this.displayProgress;
+      const eased = gap * (1 - Math.exp((-4 * elapsed) / duration));
+      this.displayProgress =
+        gap < 0.1 ? this.displayTarget : this.displayProgress + eased;
+
+      if (this.snapshot.displayProgress !== this.displayProgress) {
+        this.snapshot = {
+          ...this.snapshot,
+          displayProgress: this.displayProgress,
+        };
+        this.listeners.forEach((listener) => listener());
+      }
+
+      if (this.displayProgress < this.displayTarget) {
+        this.animationFrame = requestAnimationFrame(step);
+      }
+    };
+
+    if (this.displayProgress < this.displayTarget) {
+      this.animationFrame = requestAnimationFrame(step);
+    }
+  }
+
+  /**
+   * Calculates the state of every asset group
+   *
+   * Configured groups are listed even before any of their assets is found.
+   */
+  private calculateGroups(): Record<string, AssetGroupState> {
+    const assetsByGroup: Record<string, TrackedAsset[]> = {};
+    Object.keys(this.options.groups ?? {}).forEach((name) => {
+      assetsByGroup[name] = [];
+    });
+    this.assets.forEach((asset) => {
+      if (asset.group !== undefined) {
+        (assetsByGroup[asset.group] ??= []).push(asset);
+      }
+    });
+
+    const groups: Record<string, AssetGroupState> = {};
+    Object.entries(assetsByGroup).forEach(([name, entries]) => {
+      const counts = countAssets(entries);
+      const settledCount =
+        counts.loadedCount + counts.failedCount + counts.timedOutCount;
+
+      groups[name] =
+        counts.totalCount > 0
+          ? {
+              ...counts,
+              progress: calculateProgress(
+                entries,
+                counts,
+                this.options.weighting
+              ),
+              isComplete: settledCount === counts.totalCount,
+            }
+          : {
+              ...counts,
+              progress: this.hasScanned ? 100 : 0,
+              isComplete: this.hasScanned,
+            };
+    });
+
+    return groups;
+  }
+
+  /**
+   * Runs every enabled scanner, built-in and custom, over the root container
+   *
+   * @param signal - Cancels every listener and timer started by this scan
+   *
+   * @returns `false` when the root container is not attached and nothing was scanned
+   */
+  private scanAssets(signal: AbortSignal): boolean {
+    const { options } = this;
+
+    // Scope every scanner to the root container (the whole document by default)
+    const root = resolveRoot(options.root);
+    if (!root) {
+      return false;
+    }
+
+    // Late reports from a scanner that ignores the signal are dropped too
+    const report = guardAssetUpdates(this.reportAsset, signal);
+
+    // In observe mode, lazy images waiting to scroll into view are tracked like
+    // observed elements, with their own controller: moving or re-sourcing one
+    // then cancels its visibility watch instead of adding a second one
+    const deferredImages: ObservedAssetElement[] = [];
+    const imageFilter = (target: Element | FontFace) => {
+      if (!this.shouldTrack(target)) {
+        return false;
+      }
+      if (target instanceof HTMLImageElement && isDeferredLazyImage(target)) {
+        deferredImages.push(target);
+        return false;
+      }
+      return true;
+    };
+    const defersLazyImages =
+      options.observe && options.lazyImages === "visible";
+
+    getScanners()
+      .filter((scanner) => shouldScanType(options, scanner.name))
+      .forEach((scanner) => {
+        const reportedBefore = this.assets.length;
+
+        try {
+          const dispose = scanner.discover(report, {
+            root,
+            timeout: resolveTimeout(options, scanner.name),
+            retry: resolveRetry(options, scanner.name),
+            filter:
+              defersLazyImages && scanner.name === "images"
+                ? imageFilter
+                : this.shouldTrack,
+            signal,
+            options,
+          });
+
+          if (dispose) {
+            this.scannerDisposers.push(dispose);
+          }
+        } catch (error) {
+          // A faulty scanner must not stop the others; what it reported before
+          // throwing may never settle, so it is dropped
+          const reported = new Set(
+            this.assets.slice(reportedBefore).map((asset) => asset.id)
+          );
+          this.retireAssets((asset) => reported.has(asset.id));
+          reportScannerError(error);
+        }
+      });
+
+    deferredImages.forEach((image) => this.trackElement(image));
+
+    return true;
+  }
+
+  /**
+   * Preloads the entries of the `manifest` option, if any
+   *
+   * @param signal - Cancels every listener and timer started for the manifest
+   */
+  private loadManifest(signal: AbortSignal): void {
+    const { options } = this;
+    if (!options.manifest) {
+      return;
+    }
+
+    preloadManifest(options.manifest, this.reportAsset, (type) => ({
+      timeout: resolveTimeout(options, type),
+      retry: resolveRetry(options, type),
+      signal,
+    }));
+  }
+
+  /**
+   * Watches the root for media elements added, removed or given a new source
+   */
+  private observe(): void {
+    const root = resolveRoot(this.options.root);
+    if (!root) {
+      return;
+    }
+
+    this.disconnectObserver = observeAssets(
+      (element) => {
+        if (
+          this.isObservedTypeEnabled(element) &&
+          !this.trackedElements.has(element)
+        ) {
+          this.trackElement(element);
+        }
+      },
+      (element) => this.untrackElement(element),
+      root === document ? document.documentElement : root
+    );
+  }
+
+  /**
+   * Starts tracking a single media element in observe mode
+   *
+   * Runs the regular scanner for the element's type so it is detected exactly
+   * like the assets found by the initial scan.
+   */
+  private trackElement(element: ObservedAssetElement): void {
+    const { options } = this;
+
+    // A moved or re-sourced element may still be waiting to scroll into view
+    this.elementControllers.get(element)?.abort();
+    const controller = new AbortController();
+    this.elementControllers.set(element, controller);
+    const { signal } = controller;
+
+    if (element instanceof HTMLImageElement) {
+      scanImages(this.reportAsset, {
+        elements: [element],
+        timeout: resolveTimeout(options, "images"),
+        retry: resolveRetry(options, "images"),
+        lazy: options.lazyImages,
+        filter: this.shouldTrack,
+        signal,
+      });
+    } else if (element instanceof HTMLVideoElement) {
+      scanVideos(this.reportAsset, {
+        elements: [element],
+        timeout: resolveTimeout(options, "videos"),
+        retry: resolveRetry(options, "videos"),
+        filter: this.shouldTrack,
+        signal,
+      });
+    } else {
+      scanAudios(this.reportAsset, {
+        elements: [element],
+        timeout: resolveTimeout(options, "audios"),
+        retry: resolveRetry(options, "audios"),
+        filter: this.shouldTrack,
+        signal,
+      });
+    }
+  }
+
+  /**
+   * Stops tracking a media element in observe mode
+   *
+   * Drops its entry whether it was pending or already settled, so the counters
+   * only describe assets still on the page.
+   */
+  private untrackElement(element: ObservedAssetElement): void {
+    // Lazy images waiting to scroll into view have a controller but no entry yet
+    this.elementControllers.get(element)?.abort();
+    this.elementControllers.delete(element);
+
+    if (!this.trackedElements.delete(element)) {
+      return;
+    }
+
+    this.retireAssets((asset) => asset.element === element);
+    this.update();
+  }
+
+  /** Whether an observed element's type is enabled by the scan/ignore options */
+  private isObservedTypeEnabled(element: ObservedAssetElement): boolean {
+    if (element instanceof HTMLImageElement) {
+      return shouldScanType(this.options, "images");
+    }
+    if (element instanceof HTMLVideoElement) {
+      return shouldScanType(this.options, "videos");
+    }
+    return shouldScanType(this.options, "audios");
+  }
+
+  /** Cancels the current scan, the observer and every observe-mode element */
+  private teardown(): void {
+    this.scanController?.abort();
+    this.scanController = null;
+
+    this.scannerDisposers.forEach((dispose) => dispose());
+    this.scannerDisposers = [];
+
+    this.disconnectObserver?.();
+    this.disconnectObserver = null;
+
+    this.elementControllers.forEach((controller) => controller.abort());
+    this.elementControllers.clear();
+
+    if (this.animationFrame !== null) {
+      cancelAnimationFrame(this.animationFrame);
+      this.animationFrame = null;
+    }
+
+    if (this.minDurationTimer !== null) {
+      clearTimeout(this.minDurationTimer);
+      this.minDurationTimer = null;
+    }
+
+    if (this.mediaProgressTimer !== null) {
+      clearTimeout(this.mediaProgressTimer);
+      this.mediaProgressTimer = null;
+    }
+  }
+}
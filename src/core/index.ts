@@ -0,0 +1,30 @@
+export { AssetTracker } from "./assetTracker";
+export { registerScanner } from "./scannerRegistry";
+export {
+  createTrackedAsset,
+  settleTrackedAsset,
+} from "../utils/trackedAsset";
+export type {
+  AssetCounts,
+  AssetGroupState,
+  AssetLoaderStatus,
+  AssetManifestEntry,
+  AssetReport,
+  AssetScanner,
+  AssetSnapshot,
+  AssetStatus,
+  AssetTiming,
+  AssetTrackerOptions,
+  AssetType,
+  AssetUpdateHandler,
+  BuiltInScanType,
+  FontScanMode,
+  LazyImagePolicy,
+  LoadTimingReport,
+  NetworkOptions,
+  RequestPattern,
+  RetryOptions,
+  ScannerContext,
+  ScanType,
+  TrackedAsset,
+} from "../types";
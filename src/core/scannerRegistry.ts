@@ -0,0 +1,132 @@
+import { scanImages } from "../utils/imageScanner";
+import { scanVideos } from "../utils/videoScanner";
+import { scanAudios } from "../utils/audioScanner";
+import { scanFonts } from "../utils/fontScanner";
+import { scanBackgrounds } from "../utils/backgroundScanner";
+import { scanStylesheets } from "../utils/stylesheetScanner";
+import { trackRequests } from "../utils/networkScanner";
+import { scanScripts } from "../utils/scriptScanner";
+import { AssetScanner } from "../types";
+
+/**
+ * Built-in scanners, in the order they run
+ */
+const BUILT_IN_SCANNERS: AssetScanner[] = [
+  {
+    name: "images",
+    discover: (report, { options, ...context }) => {
+      scanImages(report, { ...context, lazy: options.lazyImages });
+    },
+  },
+  {
+    name: "videos",
+    discover: (report, context) => {
+      scanVideos(report, context);
+    },
+  },
+  {
+    name: "audios",
+    discover: (report, context) => {
+      scanAudios(report, context);
+    },
+  },
+  {
+    name: "backgrounds",
+    discover: (report, context) => {
+      scanBackgrounds(report, context);
+    },
+  },
+  {
+    name: "stylesheets",
+    discover: (report, context) => {
+      scanStylesheets(report, context);
+    },
+  },
+  {
+    name: "fonts",
+    discover: (report, { options, ...context }) => {
+      scanFonts(report, {
+        ...context,
+        mode: options.fontMode,
+        onUnused: options.onUnusedFonts,
+      });
+    },
+  },
+  {
+    name: "scripts",
+    discover: (report, context) => {
+      scanScripts(report, context);
+    },
+  },
+  {
+    name: "network",
+    discover: (report, { options, timeout, signal }) =>
+      trackRequests(report, { ...options.network, timeout, signal }),
+  },
+];
+
+/** Custom scanners, in registration order */
+const customScanners = new Map<string, AssetScanner>();
+
+/**
+ * Registers a custom scanner for every tracker started afterwards
+ *
+ * Custom scanners run after the built-in ones and take part in `scan`, `ignore`
+ * and `timeouts` under their name, like the built-in types. Their assets count
+ * towards the same totals, progress and per-type breakdown.
+ *
+ * When `discover()` throws, the error is reported like an uncaught one, the
+ * assets that scanner reported are dropped, and the other scanners still run.
+ *
+ * @param scanner - Scanner to add; its name must not already be in use
+ *
+ * @returns Function that unregisters the scanner
+ *
+ * @throws {Error} When a scanner with the same name is already registered
+ *
+ * @example
+ * ```typescript
+ * // Track Lottie animations by fetching their JSON
+ * registerScanner({
+ *   name: "lottie",
+ *   discover(report, { root, signal }) {
+ *     root.querySelectorAll("lottie-player[src]").forEach((player) => {
+ *       const asset = createTrackedAsset("lottie", player.getAttribute("src")!, player);
+ *       report(asset);
+ *
+ *       fetch(asset.url, { signal })
+ *         .then((response) => report(settleTrackedAsset(asset, response.ok ? "loaded" : "failed")))
+ *         .catch(() => report(settleTrackedAsset(asset, "failed")));
+ *     });
+ *   },
+ * });
+ *
+ * // Then: useAssetLoader({ scan: ["images", "lottie"] })
+ * ```
+ *
+ * @since 1.3.0
+ */
+export function registerScanner(scanner: AssetScanner): () => void {
+  const taken =
+    customScanners.has(scanner.name) ||
+    BUILT_IN_SCANNERS.some((builtIn) => builtIn.name === scanner.name);
+
+  if (taken) {
+    throw new Error(`A scanner named "${scanner.name}" is already registered`);
+  }
+
+  customScanners.set(scanner.name, scanner);
+
+  return () => {
+    if (customScanners.get(scanner.name) === scanner) {
+      customScanners.delete(scanner.name);
+    }
+  };
+}
+
+/**
+ * Returns every scanner, built-in ones first, then custom ones in registration order
+ */
+export function getScanners(): AssetScanner[] {
+  return [...BUILT_IN_SCANNERS, ...customScanners.values()];
+}
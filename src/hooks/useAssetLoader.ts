@@ -1,45 +1,20 @@
-import { useEffect, useRef, useState } from "react";
-import { scanImages } from "../utils/imageScanner";
-import { scanVideos } from "../utils/videoScanner";
-import { scanAudios } from "../utils/audioScanner";
-import { scanFonts } from "../utils/fontScanner";
+import {
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import { AssetTracker } from "../core/assetTracker";
+import { AssetLoaderOptions, AssetLoaderReturn } from "../types";
 
 /**
- * Configuration options for the useAssetLoader hook
+ * `useLayoutEffect` in the browser, `useEffect` on the server where layout
+ * effects never run (and React warns about them)
  */
-interface AssetLoaderOptions {
-  /**
-   * Asset types to scan for loading tracking
-   * @default "all" - Scans all supported asset types
-   */
-  scan?: "all" | ("images" | "videos" | "audios" | "fonts")[];
-
-  /**
-   * Asset types to ignore during scanning
-   * @default [] - No assets are ignored
-   */
-  ignore?: ("images" | "videos" | "audios" | "fonts")[];
-}
-
-/**
- * Return type for the useAssetLoader hook
- */
-interface AssetLoaderReturn {
-  /** Total number of assets detected on the page */
-  totalCount: number;
-
-  /** Number of assets that have loaded successfully */
-  loadedCount: number;
-
-  /** Number of assets that failed to load */
-  failedCount: number;
-
-  /** Loading progress as a percentage (0-100) */
-  progress: number;
-
-  /** Whether all detected assets have finished loading (success or failure) */
-  isComplete: boolean;
-}
+const useClientLayoutEffect =
+  typeof document === "undefined" ? useEffect : useLayoutEffect;
 
 /**
  * Automatically detects and tracks loading progress of all assets on the page
@@ -60,24 +35,51 @@ interface AssetLoaderReturn {
  * - **Videos** (`<video>` elements) - Tracks video loading with timeout protection
  * - **Audio** (`<audio>` elements) - Monitors audio file loading with timeout protection
  * - **Fonts** (Web fonts) - Detects @font-face, Google Fonts, and custom fonts
+ * - **CSS Images** (`background-image`, `border-image`, `mask-image`, `content`) - Loaded once per URL
+ * - **Stylesheets** (`<link rel="stylesheet">` and same-origin `@import`) - Tracks CSS arrival
+ * - **Scripts** (opt-in: `<script src>`, `<link rel="modulepreload">` and `import()` chunks) -
+ *   Tracks code-split bundles through element events and `PerformanceObserver`
+ * - **Network Requests** (opt-in: `fetch` and `XMLHttpRequest`) - JSON, animations, 3D models
+ * - **Custom Types** - Anything a scanner registered with `registerScanner()` reports
+ *   (Lottie files, 3D models, PDF embeds...), selected by name in `scan`/`ignore`
  *
  * **Advanced Features:**
  * - **Automatic Detection**: Zero manual configuration - scans entire DOM automatically
- * - **Timeout Protection**: 7-second timeout prevents stuck progress on problematic assets
+ * - **Timeout Protection**: Configurable per-type timeouts (7 seconds by default for media and fonts)
+ *   prevent stuck progress, and timed-out assets are counted separately from failed ones
  * - **Real-time Progress**: Live updates as assets load, fail, or timeout
  * - **Error Resilience**: Failed/timed-out assets don't prevent completion (progress still reaches 100%)
+ * - **Retries**: Optional backoff retries (with cache-busting) for assets hit by temporary CDN failures
  * - **Flexible Configuration**: Choose specific asset types or ignore certain categories
+ * - **Element Filters**: Skip tracking pixels, ad images or flaky avatars with `data-asset-ignore`,
+ *   `include`/`exclude` selectors, `ignoreFonts` or a predicate
  * - **Performance Optimized**: Efficient scanning with minimal impact on page load times
  *
  * **Coming Soon:**
- * - CSS stylesheet loading detection
  * - PDF and document file tracking
- * - Dynamic import monitoring
- * - Custom asset type support
  *
- * @param options - Optional configuration object for customizing scanning behavior
+ * @param options - Optional configuration object for customizing scanning behavior,
+ *   read once when the component mounts (callbacks always run in their latest version)
  * @param options.scan - Specify which asset types to track ("all" or array of specific types)
  * @param options.ignore - Specify which asset types to skip during scanning
+ * @param options.include - CSS selector of the elements to track
+ * @param options.exclude - CSS selector of the elements to skip (or mark them with `data-asset-ignore`)
+ * @param options.ignoreFonts - Font families that are never tracked
+ * @param options.filter - Predicate deciding whether an element or font face is tracked
+ * @param options.observe - Keep tracking media elements added, removed or changed after mount
+ * @param options.root - Limit tracking to the assets inside a container ref or element
+ * @param options.timeouts - Per-type timeouts in milliseconds, with an optional global default
+ * @param options.weighting - Weight progress by asset count (default) or by bytes
+ * @param options.lazyImages - Skip, wait for visible, or force-load offscreen lazy images
+ * @param options.retry - Reload failed assets with a backoff before counting them as failed
+ * @param options.manifest - Known assets to preload before they are rendered
+ * @param options.manifestMode - Track the manifest with the DOM assets ("combine") or alone ("replace")
+ * @param options.groups - Named groups of assets, as CSS selectors, tracked separately
+ * @param options.onAssetLoad - Called with each asset that loads, straight from its scanner
+ * @param options.onAssetError - Called with each asset that fails or times out, straight from its scanner
+ * @param options.onProgress - Called with every progress change, including those React batches
+ * @param options.onComplete - Receives a serializable timing report each time loading completes
+ * @param options.slowestCount - Number of slowest assets listed in the timing report
  *
  * @returns Object containing real-time asset loading state and progress information
  *
@@ -146,6 +148,134 @@ interface AssetLoaderReturn {
  *
  * @example
  * ```tsx
+ * // Debugging - list the assets that did not load
+ * function FailedAssets() {
+ *   const { assets, isComplete } = useAssetLoader();
+ *
+ *   if (!isComplete) return null;
+ *
+ *   return (
+ *     <ul>
+ *       {assets
+ *         .filter((asset) => asset.status === "failed" || asset.status === "timed-out")
+ *         .map((asset) => (
+ *           <li key={asset.id}>
+ *             {asset.type}: {asset.url} ({asset.status})
+ *           </li>
+ *         ))}
+ *     </ul>
+ *   );
+ * }
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Live tracking - count images rendered after mount (lazy routes, galleries)
+ * function Gallery({ photos }) {
+ *   const { progress, totalCount } = useAssetLoader({ observe: true });
+ *
+ *   return (
+ *     <>
+ *       <p>{progress.toFixed(0)}% of {totalCount} photos</p>
+ *       {photos.map((photo) => <img key={photo.id} src={photo.url} />)}
+ *     </>
+ *   );
+ * }
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Imperative preloading - assets that are not rendered yet
+ * function GameLevel({ level }) {
+ *   const { progress, isComplete, loadImage, loadFont, reset } = useAssetLoader();
+ *
+ *   useEffect(() => {
+ *     loadImage(level.spriteSheet).catch(console.warn);
+ *     loadFont("Pixel", "/fonts/pixel.woff2").catch(console.warn);
+ *   }, [level]);
+ *
+ *   return isComplete ? <Scene level={level} onRestart={reset} /> : <Bar value={progress} />;
+ * }
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Asset groups - reveal the page once the hero is ready, keep loading the rest
+ * function Page() {
+ *   const { groups, progress } = useAssetLoader({
+ *     groups: { critical: ".hero, header" },
+ *   });
+ *
+ *   return (
+ *     <>
+ *       {!groups.critical?.isComplete && <Splash progress={groups.critical?.progress} />}
+ *       <header>...</header>
+ *       <section className="hero">...</section>
+ *       <footer data-asset-group="deferred">Loading more: {progress.toFixed(0)}%</footer>
+ *     </>
+ *   );
+ * }
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Manifest preloading - load a game scene's assets before mounting it
+ * const manifest = [
+ *   { url: "/sprites/hero.png", type: "image", weight: 240000 },
+ *   { url: "/music/theme.mp3", type: "audio", weight: 3200000 },
+ *   { url: "/fonts/Pixel.woff2", type: "font", family: "Pixel" },
+ * ];
+ *
+ * function Game() {
+ *   const { isComplete, progress } = useAssetLoader({
+ *     manifest,
+ *     manifestMode: "replace",
+ *     weighting: "bytes",
+ *   });
+ *
+ *   return isComplete ? <Scene /> : <Bar value={progress} />;
+ * }
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Scoped tracking - a dialog that only waits on its own assets
+ * function ProductDialog({ product }) {
+ *   const dialogRef = useRef<HTMLDivElement>(null);
+ *   const { isComplete } = useAssetLoader({ root: dialogRef });
+ *
+ *   return (
+ *     <div ref={dialogRef} className={isComplete ? "ready" : "loading"}>
+ *       <img src={product.image} alt={product.name} />
+ *     </div>
+ *   );
+ * }
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Server rendering - the first paint shows the loader, scanning starts after hydration
+ * function Splash() {
+ *   const { status, progress, totalCount } = useAssetLoader({ manifest });
+ *
+ *   if (status === "idle") {
+ *     return <Bar value={0} label={`Preparing ${totalCount} assets`} />;
+ *   }
+ *   return <Bar value={progress} />;
+ * }
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Display progress - an eased bar that never goes back, and no one-frame flash when cached
+ * function Splash() {
+ *   const { displayProgress } = useAssetLoader({ smoothing: 500, minDuration: 800 });
+ *   return <Bar value={displayProgress} />;
+ * }
+ * ```
+ *
+ * @example
+ * ```tsx
  * // Conditional app rendering - classic splash screen pattern
  * function App() {
  *   const { isComplete, progress } = useAssetLoader();
@@ -167,30 +297,45 @@ interface AssetLoaderReturn {
  *
  * @example
  * ```tsx
- * // Performance monitoring and analytics
- * function PerformanceAwareApp() {
- *   const { progress, loadedCount, failedCount, isComplete } = useAssetLoader();
+ * // Lifecycle callbacks - react to each asset, straight from the scanners
+ * function MonitoredPage() {
+ *   useAssetLoader({
+ *     onAssetLoad: (asset) => console.debug(`${asset.type} ready: ${asset.url}`),
+ *     onAssetError: (asset) => errorReporter.capture(`${asset.url} ${asset.status}`, asset.element),
+ *     onProgress: (progress) => nprogress.set(progress / 100),
+ *   });
  *
- *   useEffect(() => {
- *     if (isComplete) {
- *       // Send analytics data
- *       analytics.track('Assets Loaded', {
- *         totalLoaded: loadedCount,
- *         totalFailed: failedCount,
- *         loadTime: Date.now() - startTime
- *       });
- *     }
- *   }, [isComplete, loadedCount, failedCount]);
+ *   return <Page />;
+ * }
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Performance monitoring and analytics - a serializable timing report on completion
+ * function PerformanceAwareApp() {
+ *   useAssetLoader({
+ *     onComplete: (report) => {
+ *       // Wall time, per-type finish times, per-asset TTFB/size/cache hits, slowest assets
+ *       navigator.sendBeacon("/rum/assets", JSON.stringify(report));
+ *     },
+ *     slowestCount: 10,
+ *   });
  *
  *   return <YourApp />;
  * }
  * ```
  *
  * **Technical Implementation Notes:**
- * - Runs asset detection once on component mount to prevent duplicate scanning
- * - Uses React.useRef to prevent re-scanning during strict mode or re-renders
- * - Employs functional state updates for thread-safe concurrent asset loading
+ * - Thin binding over the framework-agnostic `AssetTracker`, read through
+ *   `useSyncExternalStore` so every render sees a consistent snapshot (React 18+)
+ * - Runs asset detection once on component mount, and again after `reset()`
+ * - Server-rendering safe: nothing touches the DOM before the mount effect, and the
+ *   server and hydration renders share an `"idle"` snapshot (with a `totalCount` hint
+ *   from the manifest), so Next.js/Remix pages hydrate without mismatches
+ * - Cancels every listener and timer through an AbortSignal on unmount, including
+ *   React strict mode's simulated unmount, so no state update arrives afterwards
  * - Implements Promise.race() pattern for timeout protection on media assets
+ * - Preloads imperative assets off-DOM through the same scanners as detected ones
  * - Optimized for both small sites (few assets) and large applications (hundreds of assets)
  *
  * **Browser Compatibility:**
@@ -205,130 +350,67 @@ interface AssetLoaderReturn {
 export function useAssetLoader(
   options?: AssetLoaderOptions
 ): AssetLoaderReturn {
-  // ===== STATE MANAGEMENT =====
-
-  /** Total number of assets detected across all scanners */
-  const [totalCount, setTotalCount] = useState(0);
-
-  /** Number of assets that have successfully loaded */
-  const [loadedCount, setLoadedCount] = useState(0);
-
-  /** Number of assets that failed to load or timed out */
-  const [failedCount, setFailedCount] = useState(0);
-
-  /** Loading progress percentage (0-100) calculated from counts */
-  const [progress, setProgress] = useState(0);
-
-  /** Whether all assets have finished loading (success + failure = total) */
-  const [isComplete, setIsComplete] = useState(false);
-
-  // ===== REFS FOR OPTIMIZATION =====
-
-  /** Prevents duplicate scanning during React strict mode or component re-renders */
-  const hasScanned = useRef(false);
-
-  /** Accumulates total asset count across all scanner types */
-  const totalAssets = useRef(0);
-
   /**
-   * Asset Detection and Scanning Phase
+   * Options of the latest render
    *
-   * Runs once on component mount to:
-   * 1. Parse configuration options with sensible defaults
-   * 2. Conditionally run each asset scanner based on user preferences
-   * 3. Accumulate total asset counts from all active scanners
-   * 4. Initialize the progress tracking system
+   * The tracker reads its options once, but calls the callbacks through this ref,
+   * so inline handlers always see the current props and state.
    */
+  const latestOptions = useRef(options);
   useEffect(() => {
-    // Prevent double-scanning during React strict mode or re-renders
-    if (hasScanned.current) {
-      return;
-    }
-    hasScanned.current = true;
-
-    // Parse options with defaults: scan everything, ignore nothing
-    const { scan = "all", ignore = [] } = options || {};
-
-    // ===== IMAGE SCANNING =====
-    const shouldScanImages =
-      (scan === "all" || scan.includes("images")) && !ignore.includes("images");
-    if (shouldScanImages) {
-      /**
-       * Detect and track all <img> elements on the page
-       * Uses document.images for efficient native detection
-       */
-      const { totalImages } = scanImages(setLoadedCount, setFailedCount);
-      totalAssets.current += totalImages;
-    }
-
-    // ===== VIDEO SCANNING =====
-    const shouldScanVideos =
-      (scan === "all" || scan.includes("videos")) && !ignore.includes("videos");
-    if (shouldScanVideos) {
-      /**
-       * Detect and track all <video> elements with timeout protection
-       * Monitors readyState and handles loading/error events
-       */
-      const { totalVideos } = scanVideos(setLoadedCount, setFailedCount);
-      totalAssets.current += totalVideos;
-    }
-
-    // ===== AUDIO SCANNING =====
-    const shouldScanAudios =
-      (scan === "all" || scan.includes("audios")) && !ignore.includes("audios");
-    if (shouldScanAudios) {
-      /**
-       * Detect and track all <audio> elements with timeout protection
-       * Similar to video scanning but optimized for audio-specific states
-       */
-      const { totalAudios } = scanAudios(setLoadedCount, setFailedCount);
-      totalAssets.current += totalAudios;
-    }
+    latestOptions.current = options;
+  });
 
-    // ===== FONT SCANNING =====
-    const shouldScanFonts =
-      (scan === "all" || scan.includes("fonts")) && !ignore.includes("fonts");
-    if (shouldScanFonts) {
-      /**
-       * Detect and track all web fonts using FontFace API
-       * Handles @font-face declarations, Google Fonts, and custom fonts
-       */
-      const { totalFonts } = scanFonts(setLoadedCount, setFailedCount);
-      totalAssets.current += totalFonts;
-    }
+  /** Tracking engine, created once per component instance with the initial options */
+  const [tracker] = useState(
+    () =>
+      new AssetTracker({
+        ...options,
+        onAssetLoad: (asset) => latestOptions.current?.onAssetLoad?.(asset),
+        onAssetError: (asset) => latestOptions.current?.onAssetError?.(asset),
+        onProgress: (progress, snapshot) =>
+          latestOptions.current?.onProgress?.(progress, snapshot),
+        onComplete: (report) => latestOptions.current?.onComplete?.(report),
+      })
+  );
 
-    // Initialize total count to trigger progress calculations
-    setTotalCount(totalAssets.current);
-
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []); // Empty dependency array - run once on mount only
+  /**
+   * Asset Detection and Scanning Phase
+   *
+   * Starts tracking on mount, in a layout effect: React runs those before any
+   * passive effect, so `fetch` and `XMLHttpRequest` are wrapped before children
+   * send their mount requests from `useEffect`. The cleanup cancels every
+   * listener, timer and observer, so no update arrives after unmount; under
+   * React strict mode the simulated remount starts over from an empty list.
+   */
+  useClientLayoutEffect(() => {
+    tracker.start();
+    return () => tracker.stop();
+  }, [tracker]);
 
   /**
-   * Progress Calculation and Completion Detection
+   * Current loading state, re-rendering whenever the tracker publishes a change
    *
-   * Recalculates progress percentage and completion status whenever
-   * asset counts change. This provides real-time feedback as assets
-   * finish loading or fail.
+   * The server render and the hydration render both use the `"idle"` snapshot,
+   * so there is no hydration mismatch; scanning starts in the effect above.
    */
-  useEffect(() => {
-    // Only calculate if we have assets to track
-    if (totalCount > 0) {
-      // Calculate progress: (completed assets / total assets) * 100
-      // Completed = successfully loaded + failed (both count as "finished")
-      const newProgress = ((loadedCount + failedCount) / totalCount) * 100;
-      setProgress(newProgress);
+  const snapshot = useSyncExternalStore(
+    tracker.subscribe,
+    tracker.getSnapshot,
+    tracker.getServerSnapshot
+  );
 
-      // Check completion: all assets have finished (either loaded or failed)
-      const allAssetsFinished = loadedCount + failedCount === totalCount;
-      setIsComplete(allAssetsFinished);
-    }
-  }, [loadedCount, failedCount, totalCount]); // Recalculate when any count changes
+  /** Imperative API, stable for the lifetime of the component */
+  const actions = useMemo(
+    () => ({
+      loadImage: (src: string) => tracker.loadImage(src),
+      loadFont: (fontFamily: string, src?: string) =>
+        tracker.loadFont(fontFamily, src),
+      loadVideo: (src: string) => tracker.loadVideo(src),
+      reset: () => tracker.reset(),
+    }),
+    [tracker]
+  );
 
-  return {
-    totalCount,
-    loadedCount,
-    failedCount,
-    progress,
-    isComplete,
-  };
+  return { ...snapshot, ...actions };
 }
@@ -0,0 +1,196 @@
+import { AssetTracker } from "../core/assetTracker";
+import { AssetLoaderOptions, AssetSnapshot } from "../types";
+
+/**
+ * Options for the useAssetsReady hook
+ */
+export interface AssetsReadyOptions extends AssetLoaderOptions {
+  /**
+   * Cache key of the tracker; components using the same scope share it
+   *
+   * The options of the first call for a scope are the ones used.
+   * @default "default"
+   */
+  scope?: string;
+
+  /**
+   * Only wait for this asset group instead of every tracked asset
+   *
+   * A group without any tracked asset is ready once scanning has started.
+   */
+  group?: string;
+}
+
+/**
+ * Readiness of one wait, and the promise thrown while it is not ready
+ */
+interface ReadinessState {
+  ready: boolean;
+  promise: Promise<void>;
+  /** Settles the promise without marking the wait ready, e.g. on reset */
+  release: () => void;
+}
+
+/**
+ * A cached tracker and the readiness of each group waited on
+ */
+interface ScopeEntry {
+  tracker: AssetTracker;
+  readiness: Map<string | undefined, ReadinessState>;
+}
+
+/** Trackers shared by every `useAssetsReady` call, by scope */
+const scopes = new Map<string, ScopeEntry>();
+
+/**
+ * Whether the snapshot satisfies a wait, for every asset or for one group
+ */
+function isReady(snapshot: AssetSnapshot, group: string | undefined): boolean {
+  if (group === undefined) {
+    return snapshot.isComplete;
+  }
+  return snapshot.groups[group]?.isComplete ?? snapshot.status !== "idle";
+}
+
+/**
+ * Returns the cached tracker of a scope, creating and starting it on first use
+ *
+ * The tracker stops itself once every asset has settled, so a finished scope
+ * holds no listeners, timers or observers.
+ */
+function getScope(scope: string, options: AssetLoaderOptions): ScopeEntry {
+  let entry = scopes.get(scope);
+
+  if (!entry) {
+    const tracker = new AssetTracker(options);
+    entry = { tracker, readiness: new Map() };
+    scopes.set(scope, entry);
+
+    tracker.start();
+    tracker.whenComplete().then(
+      () => tracker.stop(),
+      () => undefined
+    );
+  }
+
+  return entry;
+}
+
+/**
+ * Stops the tracker of a dropped scope
+ *
+ * Pending waits are released so that suspended components render again and
+ * pick up the scope's new tracker, instead of waiting on the stopped one forever.
+ */
+function dropScope(entry: ScopeEntry): void {
+  entry.tracker.stop();
+  entry.readiness.forEach((wait) => wait.release());
+}
+
+/**
+ * Suspends the calling component until the tracked assets are loaded
+ *
+ * The Suspense counterpart of `useAssetLoader`: the nearest `<Suspense fallback>`
+ * boundary covers asset loading the same way it covers data fetching. It runs
+ * the same scanners, and accepts the same options plus:
+ * - **`scope`**: Trackers are cached per scope, so a resolved scope never suspends
+ *   again (until `resetAssetsReady(scope)` is called)
+ * - **`group`**: Wait for a single asset group (e.g. `"critical"`) instead of everything
+ *
+ * **How it works:**
+ * 1. The first render for a scope creates and starts an `AssetTracker`
+ * 2. Until the assets (or the group) are done, the hook throws a promise, which
+ *    suspends the component
+ * 3. Once done, the promise resolves, React renders again and the hook returns
+ *    the loading state
+ *
+ * The document is scanned as it is when the hook first renders; the suspended
+ * subtree itself is not in the DOM yet, so list its assets in a `manifest`.
+ * During server rendering the hook never suspends and returns the idle state.
+ *
+ * @param options - Hook options, plus the cache `scope` and the `group` to wait for
+ *
+ * @returns The loading state once ready (counts, groups, assets...)
+ *
+ * @example
+ * ```tsx
+ * function Scene() {
+ *   useAssetsReady({ scope: "level-1", manifest: level1Assets, manifestMode: "replace" });
+ *   return <Canvas />;
+ * }
+ *
+ * <Suspense fallback={<Spinner />}>
+ *   <Scene />
+ * </Suspense>
+ * ```
+ *
+ * @since 1.3.0
+ */
+export function useAssetsReady(options: AssetsReadyOptions = {}): AssetSnapshot {
+  const { scope = "default", group, ...trackerOptions } = options;
+
+  const { tracker, readiness } = getScope(scope, trackerOptions);
+
+  // Nothing loads on the server, so render the idle state instead of suspending
+  if (typeof document === "undefined") {
+    return tracker.getServerSnapshot();
+  }
+
+  let wait = readiness.get(group);
+  if (!wait) {
+    const state: ReadinessState = {
+      ready: false,
+      promise: Promise.resolve(),
+      release: () => undefined,
+    };
+    state.promise = new Promise<void>((resolve) => {
+      const check = () => {
+        if (isReady(tracker.getSnapshot(), group)) {
+          state.ready = true;
+          unsubscribe();
+          resolve();
+        }
+      };
+      const unsubscribe = tracker.subscribe(check);
+      state.release = () => {
+        unsubscribe();
+        resolve();
+      };
+      check();
+    });
+
+    wait = state;
+    readiness.set(group, wait);
+  }
+
+  if (!wait.ready) {
+    throw wait.promise;
+  }
+
+  return tracker.getSnapshot();
+}
+
+/**
+ * Drops the cached tracker of a scope (or of every scope), so the next
+ * `useAssetsReady` call scans again and suspends until ready
+ *
+ * Components suspended on a dropped scope render again and wait on the new one.
+ *
+ * @param scope - Scope to reset; every scope when omitted
+ *
+ * @since 1.3.0
+ */
+export function resetAssetsReady(scope?: string): void {
+  if (scope !== undefined) {
+    const entry = scopes.get(scope);
+    scopes.delete(scope);
+    if (entry) {
+      dropScope(entry);
+    }
+    return;
+  }
+
+  const entries = Array.from(scopes.values());
+  scopes.clear();
+  entries.forEach(dropScope);
+}
@@ -1,2 +1,39 @@
 export { useAssetLoader } from "./hooks/useAssetLoader";
-export type { AssetLoaderReturn, AssetType } from "./types";
+export { useAssetsReady, resetAssetsReady } from "./hooks/useAssetsReady";
+export type { AssetsReadyOptions } from "./hooks/useAssetsReady";
+export { AssetGate } from "./components/AssetGate";
+export type { AssetGateProps } from "./components/AssetGate";
+export { AssetProgress } from "./components/AssetProgress";
+export type { AssetProgressProps } from "./components/AssetProgress";
+export { AssetTracker } from "./core/assetTracker";
+export { registerScanner } from "./core/scannerRegistry";
+export {
+  createTrackedAsset,
+  settleTrackedAsset,
+} from "./utils/trackedAsset";
+export type {
+  AssetCounts,
+  AssetGroupState,
+  AssetLoaderOptions,
+  AssetLoaderStatus,
+  AssetLoaderReturn,
+  AssetManifestEntry,
+  AssetReport,
+  AssetScanner,
+  AssetSnapshot,
+  AssetStatus,
+  AssetTiming,
+  AssetTrackerOptions,
+  AssetType,
+  AssetUpdateHandler,
+  BuiltInScanType,
+  FontScanMode,
+  LazyImagePolicy,
+  LoadTimingReport,
+  NetworkOptions,
+  RequestPattern,
+  RetryOptions,
+  ScannerContext,
+  ScanType,
+  TrackedAsset,
+} from "./types";
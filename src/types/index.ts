@@ -1,12 +1,801 @@
-export type AssetType = "image" | "font" | "video";
+import { RefObject } from "react";
 
-export interface AssetLoaderReturn {
+/**
+ * Kind of a tracked asset
+ *
+ * Assets reported by custom scanners use the scanner's name.
+ */
+export type AssetType =
+  | "image"
+  | "font"
+  | "video"
+  | "audio"
+  | "background"
+  | "stylesheet"
+  | "request"
+  | "script"
+  | (string & {});
+
+/**
+ * Asset categories handled by the built-in scanners
+ */
+export type BuiltInScanType =
+  | "images"
+  | "videos"
+  | "audios"
+  | "fonts"
+  | "backgrounds"
+  | "stylesheets"
+  | "network"
+  | "scripts";
+
+/**
+ * Asset categories that can be selected with the `scan` and `ignore` options:
+ * a built-in type or the name of a registered custom scanner
+ */
+export type ScanType = BuiltInScanType | (string & {});
+
+/**
+ * Loading state of a single tracked asset
+ *
+ * `"retrying"` means the asset failed and is waiting for, or running, another
+ * attempt under the `retry` policy; like `"pending"`, it is not settled yet.
+ */
+export type AssetStatus =
+  | "pending"
+  | "retrying"
+  | "loaded"
+  | "failed"
+  | "timed-out";
+
+/**
+ * Per-asset entry reported by the scanners and exposed as `assets` by the hook
+ */
+export interface TrackedAsset {
+  /** Unique identifier of this tracking attempt */
+  id: number;
+
+  /** Kind of asset */
+  type: AssetType;
+
+  /**
+   * Resolved location of the asset: `currentSrc` for media elements, the
+   * absolute URL for requests, or `"<family> <weight> <style>"` for fonts
+   */
+  url: string;
+
+  /** Current loading state */
+  status: AssetStatus;
+
+  /** When tracking started, in milliseconds from `performance.timeOrigin` */
+  startTime: number;
+
+  /** When the asset settled, in milliseconds from `performance.timeOrigin` */
+  endTime?: number;
+
+  /** Number of times the asset was reloaded under the `retry` policy, if any */
+  retries?: number;
+
+  /** Explicit weight for byte-weighted progress, from a manifest entry */
+  weight?: number;
+
+  /** Size of a request's response body in bytes, once settled (when readable) */
+  size?: number;
+
+  /**
+   * Group the asset belongs to: from the manifest entry, the closest
+   * `data-asset-group` attribute, or the first matching `groups` selector
+   */
+  group?: string;
+
+  /**
+   * The element or `FontFace` being tracked
+   * (for CSS background images, the first element referencing the image;
+   * for network requests, the `Request` or `XMLHttpRequest`; for script chunks
+   * loaded without an element, their resource timing entry)
+   */
+  element:
+    | Element
+    | FontFace
+    | Request
+    | XMLHttpRequest
+    | PerformanceResourceTiming;
+}
+
+/**
+ * Receives every tracked asset twice: once as `pending` when it is discovered,
+ * then once more with its final status when it settles
+ */
+export type AssetUpdateHandler = (asset: TrackedAsset) => void;
+
+/**
+ * Configuration options for `AssetTracker` and the useAssetLoader hook
+ */
+export interface AssetTrackerOptions {
+  /**
+   * Asset types to scan for loading tracking
+   *
+   * `"network"` and `"scripts"` are opt-in: since they keep watching for new
+   * requests and chunks, they are only tracked when listed explicitly.
+   * @default "all" - Scans all supported asset types, except `"network"` and `"scripts"`
+   */
+  scan?: "all" | ScanType[];
+
+  /**
+   * Asset types to ignore during scanning
+   * @default [] - No assets are ignored
+   */
+  ignore?: ScanType[];
+
+  /**
+   * CSS selector of the elements to track; others are skipped
+   *
+   * An element is included when it, or one of its ancestors, matches.
+   * @default undefined - Every element is tracked
+   */
+  include?: string;
+
+  /**
+   * CSS selector of the elements to skip, e.g. tracking pixels or ad slots
+   *
+   * An element is excluded when it, or one of its ancestors, matches. Elements
+   * can also be skipped in markup with a `data-asset-ignore` attribute (on the
+   * element or a container).
+   * @default undefined - No element is skipped
+   */
+  exclude?: string;
+
+  /**
+   * Font families that are never tracked (case-insensitive)
+   * @default [] - Every font face is tracked
+   * @example ["Material Icons"]
+   */
+  ignoreFonts?: string[];
+
+  /**
+   * Decides whether an element or font face is tracked, after `data-asset-ignore`,
+   * `include`, `exclude` and `ignoreFonts`
+   * @default undefined - Everything left is tracked
+   * @example (target) => !(target instanceof HTMLImageElement) || !target.src.includes("/avatars/")
+   */
+  filter?: (target: Element | FontFace) => boolean;
+
+  /**
+   * Keep watching the document after the initial scan
+   *
+   * When enabled, `<img>`, `<video>` and `<audio>` elements rendered after mount are
+   * added to the totals, removed elements stop being counted, and `src`/`srcset`
+   * changes restart tracking for the affected element. Fonts are not affected.
+   * @default false - Only assets present on mount are tracked
+   */
+  observe?: boolean;
+
+  /**
+   * Container to scope scanning to, as a ref or an element
+   *
+   * Only images, videos and audios inside the container are tracked, and only
+   * fonts whose family is used by text inside it. A ref is read when tracking
+   * starts, so the container must be mounted when the hook's component mounts.
+   * @default undefined - The whole document is scanned
+   */
+  root?: RefObject<Element | null> | Element | null;
+
+  /**
+   * Milliseconds to wait for each asset type before reporting it as timed out
+   *
+   * Per-type values win over `default`. Without any value, videos, audios and
+   * fonts time out after 7 seconds and the other types wait indefinitely.
+   * @example { default: 10000, videos: 20000, images: 3000 }
+   */
+  timeouts?: AssetTimeouts;
+
+  /**
+   * How each asset contributes to `progress`
+   *
+   * - `"count"`: every asset weighs the same
+   * - `"bytes"`: assets weigh their size, from a `data-asset-weight` attribute or
+   *   `PerformanceResourceTiming`; unknown sizes fall back to the average known size,
+   *   and to count-based weighting when no size is known at all. Resource timing
+   *   sizes only exist once a download has finished, so set `data-asset-weight`
+   *   on large files for the bar to account for them from the start. Pending
+   *   media move the bar as they buffer
+   * @default "count"
+   */
+  weighting?: "count" | "bytes";
+
+  /**
+   * How offscreen `loading="lazy"` images are handled, since they may never load
+   * until the user scrolls
+   *
+   * - `"skip"`: Ignored, so they cannot delay completion
+   * - `"visible"`: Tracked once they scroll into view
+   * - `"eager"`: Forced to load right away and waited on
+   * @default "skip"
+   */
+  lazyImages?: LazyImagePolicy;
+
+  /**
+   * Which web fonts are tracked
+   *
+   * - `"declared"`: Every face declared on the page; faces that never started
+   *   loading count as loaded
+   * - `"used"`: Only the family/weight/style combinations rendered by text (from
+   *   computed styles), loaded with `document.fonts.load()` and waited on
+   * @default "declared"
+   */
+  fontMode?: FontScanMode;
+
+  /**
+   * Receives the declared font faces no rendered text needs, in `"used"` font mode
+   *
+   * Called once the used combinations have settled. Unused faces are not tracked,
+   * so they do not count towards the totals.
+   * @example (faces) => console.warn("Unused font faces", faces.map((face) => face.family))
+   */
+  onUnusedFonts?: (faces: FontFace[]) => void;
+
+  /**
+   * Which `fetch` and `XMLHttpRequest` calls the `"network"` scan type tracks
+   *
+   * Only requests sent after tracking starts are seen. `useAssetLoader` starts in
+   * a layout effect, so requests its children send from `useEffect` on mount are
+   * caught, but not those sent while rendering or from their layout effects.
+   * @default undefined - Every request is tracked once `"network"` is scanned
+   * @example { include: ["/api/", /\.(gltf|glb)$/], exclude: ["/analytics"] }
+   */
+  network?: NetworkOptions;
+
+  /**
+   * Called for each asset that loads, as soon as its scanner sees it settle
+   *
+   * Receives the settled entry, with its type, URL and element. Runs before
+   * `onProgress` reflects the asset.
+   */
+  onAssetLoad?: (asset: TrackedAsset) => void;
+
+  /**
+   * Called for each asset that fails or times out (after any retries), as soon
+   * as its scanner sees it settle
+   *
+   * `asset.status` tells `"failed"` and `"timed-out"` apart.
+   */
+  onAssetError?: (asset: TrackedAsset) => void;
+
+  /**
+   * Called each time `progress` changes, with the new value and the snapshot
+   * that holds it
+   *
+   * Fires for every change, including the intermediate ones that React batches
+   * into a single render.
+   */
+  onProgress?: (progress: number, snapshot: AssetSnapshot) => void;
+
+  /**
+   * Called with a timing report each time loading completes, after the last
+   * `onAssetLoad`/`onAssetError` and `onProgress` calls
+   *
+   * The report only holds plain values (no elements), so it can be sent to a
+   * RUM or analytics backend as is.
+   * @example (report) => navigator.sendBeacon("/rum", JSON.stringify(report))
+   */
+  onComplete?: (report: LoadTimingReport) => void;
+
+  /**
+   * Number of assets listed in the timing report's `slowest`
+   * @default 5
+   */
+  slowestCount?: number;
+
+  /**
+   * Reloads assets that fail or time out before reporting them as such
+   *
+   * While waiting for another attempt, assets are reported as `"retrying"`.
+   * The counters reflect the last attempt, and progress never goes back while
+   * a retry is in flight.
+   * @default undefined - Failed assets are not retried
+   * @example { attempts: 4, backoff: "exponential", delay: 300, cacheBust: true }
+   */
+  retry?: RetryOptions;
+
+  /**
+   * Known assets to preload before they are rendered, e.g. the sprites and
+   * sounds of a game scene that is mounted once loading completes
+   *
+   * Each entry is loaded off-DOM with the matching element (`Image`, `<video>`,
+   * `Audio` or `FontFace`) and tracked with the other assets. Entries are always
+   * loaded, whatever `scan` and `ignore` say.
+   * @default undefined - No manifest
+   */
+  manifest?: AssetManifestEntry[];
+
+  /**
+   * How the manifest relates to the DOM scan
+   *
+   * - `"combine"`: Manifest entries are tracked in addition to the assets in the DOM
+   * - `"replace"`: Only manifest entries are tracked; the DOM is not scanned
+   * @default "combine"
+   */
+  manifestMode?: "combine" | "replace";
+
+  /**
+   * Named groups tracked separately, as CSS selectors
+   *
+   * An asset belongs to a group when its element, or one of its ancestors,
+   * matches the selector. Elements can also be tagged in markup with
+   * `data-asset-group="<name>"` (on the element or a container), which wins over
+   * selectors. Manifest entries use their `group`.
+   * @example { critical: ".hero, header", deferred: "footer" }
+   */
+  groups?: Record<string, string>;
+
+  /**
+   * Minimum time in milliseconds before loading can be reported complete
+   *
+   * `isComplete` stays `false` (and `status` stays `"loading"`) until it has
+   * elapsed since the scan started, so a fully cached page does not flash its
+   * splash screen for a single frame. Groups are not held back.
+   * @default 0
+   */
+  minDuration?: number;
+
+  /**
+   * Eases `displayProgress` towards `progress` on animation frames instead of
+   * jumping when a large asset finishes
+   *
+   * `true` uses the default duration; a number is the time in milliseconds a
+   * jump takes to (almost) catch up.
+   * @default false - `displayProgress` follows `progress` at once
+   * @example 600
+   */
+  smoothing?: boolean | number;
+}
+
+/**
+ * A known asset to preload, as listed in the `manifest` option
+ *
+ * @example { "url": "/sprites/hero.png", "type": "image", "weight": 240000, "group": "critical" }
+ */
+export interface AssetManifestEntry {
+  /** Location of the asset */
+  url: string;
+
+  /** Element used to load it */
+  type: "image" | "video" | "audio" | "font";
+
+  /**
+   * Weight in byte-weighted progress (any unit, as long as it is consistent
+   * with `data-asset-weight`)
+   */
+  weight?: number;
+
+  /** Group the asset belongs to */
+  group?: string;
+
+  /** Font family to register a `font` entry under (defaults to the file name) */
+  family?: string;
+}
+
+/**
+ * Retry policy for assets that fail or time out
+ */
+export interface RetryOptions {
+  /**
+   * Maximum number of attempts per asset, including the first one
+   * @default 3
+   */
+  attempts?: number;
+
+  /**
+   * How the wait grows between attempts, from the base `delay`:
+   * `"fixed"` (delay), `"linear"` (delay × n), `"exponential"` (delay × 2ⁿ⁻¹),
+   * or a function returning the milliseconds to wait before retry `n` (1-based)
+   * @default "exponential"
+   */
+  backoff?: "fixed" | "linear" | "exponential" | ((retry: number) => number);
+
+  /**
+   * Base wait in milliseconds before the first retry
+   * @default 500
+   */
+  delay?: number;
+
+  /**
+   * Asset types that are retried. Images, videos, audios and CSS backgrounds
+   * support retries; custom scanners receive the policy in their context.
+   * @default ["images", "videos", "audios", "backgrounds"]
+   */
+  types?: ScanType[];
+
+  /**
+   * Add a `retry=<n>` query parameter to the reloaded URLs, so a cached error
+   * response from a CDN or proxy is bypassed. The element's `src`/`srcset` are
+   * rewritten in place.
+   * @default false
+   */
+  cacheBust?: boolean;
+}
+
+/**
+ * Configuration options for the useAssetLoader hook
+ */
+export type AssetLoaderOptions = AssetTrackerOptions;
+
+/**
+ * Per-type timeouts in milliseconds, with an optional global default
+ *
+ * Custom scanners are configured by name.
+ */
+export interface AssetTimeouts {
+  default?: number;
+  images?: number;
+  videos?: number;
+  audios?: number;
+  fonts?: number;
+  backgrounds?: number;
+  stylesheets?: number;
+  [scanner: string]: number | undefined;
+}
+
+/**
+ * Asset counters, for all assets or for a single asset type
+ */
+export interface AssetCounts {
+  /** Number of assets tracked */
+  totalCount: number;
+
+  /** Number of assets that loaded successfully */
   loadedCount: number;
+
+  /** Number of assets that failed to load */
+  failedCount: number;
+
+  /** Number of assets that did not settle before their timeout */
+  timedOutCount: number;
+
+  /** Number of failed assets waiting for another attempt under the `retry` policy */
+  retryingCount: number;
+}
+
+/**
+ * Lifecycle of a tracker
+ *
+ * - `"idle"`: Not started yet, e.g. during server rendering and hydration
+ * - `"loading"`: Scanning started and some assets are still loading
+ * - `"complete"`: Every tracked asset has settled
+ */
+export type AssetLoaderStatus = "idle" | "loading" | "complete";
+
+/**
+ * Immutable loading state published by `AssetTracker`
+ *
+ * A new object is created on every change, so snapshots can be compared by reference.
+ */
+export interface AssetSnapshot {
+  /**
+   * Where tracking stands; `"idle"` until scanning starts in the browser, so
+   * server-rendered markup and the hydration render agree
+   */
+  status: AssetLoaderStatus;
+
+  /** Total number of assets detected on the page */
   totalCount: number;
+
+  /** Number of assets that have loaded successfully */
+  loadedCount: number;
+
+  /** Number of assets that failed to load (404, network or decoding errors) */
+  failedCount: number;
+
+  /** Number of assets that did not settle before their timeout */
+  timedOutCount: number;
+
+  /** Number of failed assets waiting for another attempt under the `retry` policy */
+  retryingCount: number;
+
+  /**
+   * Every tracked asset with its type, resolved URL, status, timestamps and element
+   *
+   * Useful to find out exactly which file failed or is still pending.
+   */
+  assets: TrackedAsset[];
+
+  /** Loading progress as a percentage (0-100) */
+  progress: number;
+
+  /**
+   * Progress meant for display, as a percentage (0-100)
+   *
+   * Never goes down between two starts, even when new assets raise `totalCount`
+   * or observe mode drops some; eased over animation frames with `smoothing`.
+   */
+  displayProgress: number;
+
+  /** Whether all detected assets have finished loading (success or failure) */
+  isComplete: boolean;
+
+  /**
+   * Counters per asset type (`"image"`, `"font"`, ... or a custom scanner's name)
+   *
+   * Only types with at least one tracked asset are listed.
+   */
+  byType: Record<string, AssetCounts>;
+
+  /**
+   * Progress, completion and counters per asset group
+   *
+   * Lists every group configured in `groups`, plus any group found through
+   * `data-asset-group` or the manifest. A configured group without assets is
+   * complete once the initial scan has run.
+   */
+  groups: Record<string, AssetGroupState>;
+}
+
+/**
+ * Loading state of a single asset group
+ */
+export interface AssetGroupState extends AssetCounts {
+  /** Loading progress of the group as a percentage (0-100) */
   progress: number;
+
+  /** Whether every asset of the group has finished loading (success or failure) */
   isComplete: boolean;
+}
+
+/**
+ * Summary of a finished load, resolved by `AssetTracker.whenComplete()`
+ */
+export interface AssetReport extends AssetCounts {
+  /** Final state of every tracked asset */
+  assets: TrackedAsset[];
+
+  /** Counters per asset type */
+  byType: Record<string, AssetCounts>;
+
+  /** Milliseconds from the start of tracking until the last asset settled */
+  duration: number;
+}
+
+/**
+ * Timing of a single asset in a `LoadTimingReport`
+ *
+ * Only holds plain values, so it serializes to JSON as is. The network fields come
+ * from `PerformanceResourceTiming` and are missing for fonts, and for cross-origin
+ * files served without `Timing-Allow-Origin`.
+ */
+export interface AssetTiming {
+  /** Kind of asset */
+  type: AssetType;
+
+  /** Resolved location of the asset */
+  url: string;
+
+  /** Final status */
+  status: AssetStatus;
+
+  /** Group the asset belongs to, if any */
+  group?: string;
+
+  /** Number of reloads under the `retry` policy, if any */
+  retries?: number;
+
+  /** When the asset was discovered, in milliseconds after tracking started */
+  start: number;
+
+  /**
+   * Load time in milliseconds: the download time from resource timing when
+   * available, otherwise the time from discovery until the asset settled
+   */
+  duration: number;
+
+  /** Time to first byte in milliseconds */
+  ttfb?: number;
+
+  /** Bytes received over the network, headers included */
+  transferSize?: number;
+
+  /** Whether the file was served from the HTTP cache */
+  cacheHit?: boolean;
+}
+
+/**
+ * Serializable timing report passed to `onComplete` when loading finishes
+ */
+export interface LoadTimingReport extends AssetCounts {
+  /** When tracking started, in milliseconds from `performance.timeOrigin` */
+  startTime: number;
+
+  /** Wall time in milliseconds from the start of tracking until the last asset settled */
+  duration: number;
+
+  /** Milliseconds from the start of tracking until the last asset of each type settled */
+  typeDurations: Record<string, number>;
+
+  /** Timing of every tracked asset, in discovery order */
+  assets: AssetTiming[];
+
+  /** The slowest assets, slowest first (`slowestCount` of them) */
+  slowest: AssetTiming[];
+}
+
+/**
+ * Return type for the useAssetLoader hook
+ */
+export interface AssetLoaderReturn extends AssetSnapshot {
+  /**
+   * Preloads an image that is not in the DOM and tracks it with the other assets
+   * Resolves once loaded, rejects if it fails or times out
+   */
   loadImage: (src: string) => Promise<void>;
+
+  /**
+   * Loads a web font and tracks it with the other assets
+   *
+   * With `src`, a new `FontFace` is created and added to `document.fonts`; without it,
+   * the `@font-face` rules already declared for the family are loaded.
+   * Resolves once loaded, rejects if it fails or times out
+   */
   loadFont: (fontFamily: string, src?: string) => Promise<void>;
+
+  /**
+   * Preloads a video that is not in the DOM and tracks it with the other assets
+   * Resolves once playable, rejects if it fails or times out
+   */
   loadVideo: (src: string) => Promise<void>;
+
+  /** Clears every tracked asset and counter, then scans again */
   reset: () => void;
 }
+
+/**
+ * Options shared by the built-in scanners
+ */
+export interface ScannerOptions<E = Element> {
+  /** Container whose subtree is scanned (defaults to the whole document) */
+  root?: ParentNode;
+
+  /** Exact elements (or `FontFace` objects) to track, skipping discovery inside the root */
+  elements?: E[];
+
+  /**
+   * Milliseconds before a pending asset is reported as `timed-out`
+   * (videos, audios and fonts default to 7000; other types wait indefinitely by default)
+   */
+  timeout?: number;
+
+  /** Retry policy for failed assets (not retried by default) */
+  retry?: RetryOptions;
+
+  /** Returns `false` for the elements (or `FontFace` objects) that must not be tracked */
+  filter?: (target: E) => boolean;
+
+  /**
+   * Cancels the scan: listeners and timers are removed and no further updates
+   * are reported once it aborts
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * How images with `loading="lazy"` that are outside the viewport are handled
+ *
+ * - `"skip"`: Not tracked
+ * - `"visible"`: Tracked once they scroll into view
+ * - `"eager"`: Forced to load right away and tracked
+ */
+export type LazyImagePolicy = "skip" | "visible" | "eager";
+
+/**
+ * Matches a request URL (always absolute): a substring, a regular expression,
+ * or a predicate
+ */
+export type RequestPattern = string | RegExp | ((url: string) => boolean);
+
+/**
+ * URL filters of the `"network"` scan type
+ */
+export interface NetworkOptions {
+  /** Only requests matching one of these patterns are tracked (defaults to every request) */
+  include?: RequestPattern[];
+
+  /** Requests matching one of these patterns are never tracked, e.g. analytics beacons or streams */
+  exclude?: RequestPattern[];
+}
+
+/**
+ * Options of the network scanner
+ */
+export interface NetworkScannerOptions extends NetworkOptions {
+  /** Time in milliseconds before a request counts as timed out (none by default) */
+  timeout?: number;
+
+  /** Unwraps `fetch` and `XMLHttpRequest` and stops reporting when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options of the image scanner
+ */
+export interface ImageScannerOptions extends ScannerOptions<HTMLImageElement> {
+  /** Lazy-image policy (defaults to `"skip"`) */
+  lazy?: LazyImagePolicy;
+}
+
+/**
+ * Which web fonts are tracked
+ *
+ * - `"declared"`: Every face in `document.fonts`; faces the page never activated
+ *   count as loaded
+ * - `"used"`: Only the family/weight/style combinations rendered by text, which
+ *   are loaded with `document.fonts.load()`; other faces are reported as unused
+ */
+export type FontScanMode = "declared" | "used";
+
+/**
+ * Options of the font scanner
+ */
+export interface FontScannerOptions extends ScannerOptions<FontFace> {
+  /** Which fonts are tracked (defaults to `"declared"`) */
+  mode?: FontScanMode;
+
+  /** In `"used"` mode, receives the declared faces no rendered text needs once the used ones settle */
+  onUnused?: (faces: FontFace[]) => void;
+}
+
+/**
+ * What a scanner receives when tracking starts
+ */
+export interface ScannerContext {
+  /** Container to search: the tracker's root, or the whole document */
+  root: ParentNode;
+
+  /** Timeout configured for the scanner in `timeouts`, if any */
+  timeout?: number;
+
+  /** Retry policy, when the scanner is listed in `retry.types` */
+  retry?: RetryOptions;
+
+  /**
+   * Element-level filter built from `data-asset-ignore`, `include`, `exclude`,
+   * `ignoreFonts` and `filter`; returns `false` for what must not be tracked
+   */
+  filter: (target: Element | FontFace) => boolean;
+
+  /** Aborted when tracking stops or restarts */
+  signal: AbortSignal;
+
+  /** Options of the tracker running the scanner */
+  options: AssetTrackerOptions;
+}
+
+/**
+ * A source of tracked assets, built in or registered with `registerScanner()`
+ *
+ * **Contract:**
+ * 1. **Discover**: `discover()` finds the assets inside `context.root`
+ * 2. **Report**: each asset is reported once as `pending` (see `createTrackedAsset`),
+ *    then once more with its final status (see `settleTrackedAsset`); the
+ *    discovery pass must report its pending entries synchronously so they count
+ *    towards the totals from the start
+ * 3. **Dispose**: the returned function, if any, runs when tracking stops or
+ *    restarts; listeners can also be tied to `context.signal` instead
+ */
+export interface AssetScanner {
+  /**
+   * Name used in `scan`, `ignore` and `timeouts`, and as the `type` of the
+   * assets the scanner reports
+   */
+  name: string;
+
+  /**
+   * Finds and tracks assets
+   *
+   * @param report - Receives every asset when discovered and when settled
+   * @param context - Root container, timeout, abort signal and tracker options
+   *
+   * @returns Optional function that releases the scanner's resources
+   */
+  discover(
+    report: AssetUpdateHandler,
+    context: ScannerContext
+  ): void | (() => void);
+}
@@ -0,0 +1,68 @@
+import { AssetTrackerOptions } from "../types";
+
+/**
+ * Normalizes a font family name for comparison ("'Brand Sans'" → "brand sans")
+ */
+function normalizeFamily(family: string): string {
+  return family.trim().replace(/^["']|["']$/g, "").toLowerCase();
+}
+
+/**
+ * Builds the element-level filter applied by the scanners
+ *
+ * Backs the `include`, `exclude`, `ignoreFonts` and `filter` options of
+ * `useAssetLoader`. Elements and font faces are checked in this order:
+ * 1. **`data-asset-ignore`**: Elements carrying the attribute, or inside a container
+ *    that carries it, are never tracked
+ * 2. **`exclude`**: Elements matching the selector, or inside a match, are skipped
+ * 3. **`include`**: When set, only elements matching the selector, or inside a match,
+ *    are tracked
+ * 4. **`ignoreFonts`**: Font faces whose family is listed are skipped (case-insensitive)
+ * 5. **`filter`**: The predicate has the last word for everything left
+ *
+ * Selectors only apply to elements; font faces are matched by family name.
+ *
+ * @param options - Tracker options holding the filters
+ *
+ * @returns Predicate that returns `true` for the elements and faces to track
+ *
+ * @example
+ * ```typescript
+ * const shouldTrack = createAssetFilter({
+ *   exclude: ".ad-slot, img.tracking-pixel",
+ *   ignoreFonts: ["Material Icons"],
+ *   filter: (target) => !(target instanceof HTMLImageElement) || target.width > 1,
+ * });
+ *
+ * scanImages(reportAsset, { filter: shouldTrack });
+ * ```
+ *
+ * @since 1.3.0
+ */
+export function createAssetFilter(
+  options: Pick<
+    AssetTrackerOptions,
+    "include" | "exclude" | "ignoreFonts" | "filter"
+  >
+): (target: Element | FontFace) => boolean {
+  const { include, exclude, ignoreFonts = [], filter } = options;
+  const ignoredFamilies = new Set(ignoreFonts.map(normalizeFamily));
+
+  return (target) => {
+    if (target instanceof Element) {
+      if (target.closest("[data-asset-ignore]")) {
+        return false;
+      }
+      if (exclude && target.closest(exclude)) {
+        return false;
+      }
+      if (include && !target.closest(include)) {
+        return false;
+      }
+    } else if (ignoredFamilies.has(normalizeFamily(target.family))) {
+      return false;
+    }
+
+    return filter ? filter(target) : true;
+  };
+}
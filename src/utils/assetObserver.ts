@@ -0,0 +1,155 @@
+import { isRetrying } from "./retryPolicy";
+
+/**
+ * DOM elements that can be picked up by the live asset observer
+ */
+export type ObservedAssetElement =
+  | HTMLImageElement
+  | HTMLVideoElement
+  | HTMLAudioElement;
+
+/**
+ * Collects every trackable media element inside a DOM subtree
+ *
+ * The node itself is included when it is an asset element, so the result is the
+ * same whether an `<img>` was inserted on its own or as part of a larger fragment.
+ *
+ * @param node - Root of the subtree to search (an inserted node, or the whole document)
+ *
+ * @returns Media elements found in the subtree, grouped by asset type
+ *
+ * @since 1.2.0
+ */
+export function collectAssetElements(node: Node): {
+  images: HTMLImageElement[];
+  videos: HTMLVideoElement[];
+  audios: HTMLAudioElement[];
+} {
+  const images: HTMLImageElement[] = [];
+  const videos: HTMLVideoElement[] = [];
+  const audios: HTMLAudioElement[] = [];
+
+  // Text nodes, comments and other non-element nodes can never hold assets
+  if (
+    !(node instanceof Element) &&
+    !(node instanceof Document) &&
+    !(node instanceof DocumentFragment)
+  ) {
+    return { images, videos, audios };
+  }
+
+  if (node instanceof HTMLImageElement) images.push(node);
+  if (node instanceof HTMLVideoElement) videos.push(node);
+  if (node instanceof HTMLAudioElement) audios.push(node);
+
+  images.push(...Array.from(node.querySelectorAll("img")));
+  videos.push(...Array.from(node.querySelectorAll("video")));
+  audios.push(...Array.from(node.querySelectorAll("audio")));
+
+  return { images, videos, audios };
+}
+
+/**
+ * Resolves the asset element affected by a `src`/`srcset` change
+ *
+ * Changing a `<source>` only matters through the element that owns it: the
+ * `<video>`/`<audio>` that plays it, or the `<img>` of the surrounding `<picture>`.
+ */
+function resolveChangedAsset(target: Node): ObservedAssetElement | null {
+  if (
+    target instanceof HTMLImageElement ||
+    target instanceof HTMLVideoElement ||
+    target instanceof HTMLAudioElement
+  ) {
+    return target;
+  }
+
+  if (target instanceof HTMLSourceElement) {
+    const owner = target.parentElement;
+
+    if (owner instanceof HTMLVideoElement || owner instanceof HTMLAudioElement) {
+      return owner;
+    }
+    if (owner instanceof HTMLPictureElement) {
+      return owner.querySelector("img");
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Watches the document for media assets that appear, disappear or change source
+ *
+ * Backs the `observe` mode of `useAssetLoader`. A single MutationObserver listens
+ * to the document tree (or the hook's root container) and reports:
+ * - **Added elements**: `<img>`, `<video>` and `<audio>` inserted after the initial scan
+ *   (lazy routes, data-driven galleries, content revealed by a Suspense boundary)
+ * - **Removed elements**: assets that were unmounted and should no longer be waited on
+ * - **Source changes**: a `src`/`srcset` update is reported as a removal followed by
+ *   an addition, so the new source is tracked from scratch
+ *
+ * The observer does not decide whether an asset has loaded; callers hand the reported
+ * elements to the regular per-type scanners so every asset is detected the same way.
+ *
+ * @param onAdded - Called for each asset element that should start being tracked
+ * @param onRemoved - Called for each asset element that should stop being tracked
+ * @param root - Subtree to watch (defaults to the whole document)
+ *
+ * @returns Function that disconnects the observer
+ *
+ * @example
+ * ```typescript
+ * const disconnect = observeAssets(
+ *   (element) => console.log("New asset", element),
+ *   (element) => console.log("Asset gone", element)
+ * );
+ *
+ * // Later, e.g. in an effect cleanup
+ * disconnect();
+ * ```
+ *
+ * @since 1.2.0
+ * @see {@link https://developer.mozilla.org/en-US/docs/Web/API/MutationObserver} MutationObserver
+ */
+export function observeAssets(
+  onAdded: (element: ObservedAssetElement) => void,
+  onRemoved: (element: ObservedAssetElement) => void,
+  root: Node = document.documentElement
+): () => void {
+  const forEachAsset = (
+    node: Node,
+    callback: (element: ObservedAssetElement) => void
+  ) => {
+    const { images, videos, audios } = collectAssetElements(node);
+    [...images, ...videos, ...audios].forEach(callback);
+  };
+
+  const observer = new MutationObserver((mutations) => {
+    mutations.forEach((mutation) => {
+      if (mutation.type === "attributes") {
+        const asset = resolveChangedAsset(mutation.target);
+
+        // Only re-track assets that are still part of the document, and leave
+        // sources rewritten by a retry to the scanner that is retrying them
+        if (asset && asset.isConnected && !isRetrying(asset)) {
+          onRemoved(asset);
+          onAdded(asset);
+        }
+        return;
+      }
+
+      mutation.removedNodes.forEach((node) => forEachAsset(node, onRemoved));
+      mutation.addedNodes.forEach((node) => forEachAsset(node, onAdded));
+    });
+  });
+
+  observer.observe(root, {
+    childList: true,
+    subtree: true,
+    attributes: true,
+    attributeFilter: ["src", "srcset"],
+  });
+
+  return () => observer.disconnect();
+}
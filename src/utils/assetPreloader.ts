@@ -0,0 +1,236 @@
+import { AssetUpdateHandler, RetryOptions, TrackedAsset } from "../types";
+import { scanImages } from "./imageScanner";
+import { scanVideos } from "./videoScanner";
+import { scanAudios } from "./audioScanner";
+import { scanFonts } from "./fontScanner";
+import { isSettled } from "./trackedAsset";
+
+/**
+ * Options shared by the preloaders
+ */
+export interface PreloadOptions {
+  /** Milliseconds before the asset is reported as timed out */
+  timeout?: number;
+
+  /** Cancels the preload; the returned promise then rejects with the abort reason */
+  signal?: AbortSignal;
+
+  /** Retry policy for images, videos and audios that fail or time out */
+  retry?: RetryOptions;
+}
+
+/**
+ * Runs a scanner and resolves once every asset it reported has settled
+ *
+ * Updates are forwarded to `onAssetUpdate` unchanged, so preloaded assets are
+ * counted exactly like the ones found in the DOM.
+ */
+function trackUntilSettled(
+  scan: (onAssetUpdate: AssetUpdateHandler) => void,
+  onAssetUpdate: AssetUpdateHandler,
+  signal?: AbortSignal
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    signal?.addEventListener("abort", () => reject(signal.reason), {
+      once: true,
+    });
+
+    const pending = new Set<number>();
+    const failures: TrackedAsset[] = [];
+
+    // Assets can settle synchronously (cached images, loaded fonts), so wait
+    // until the scanner has reported everything before deciding
+    let discovering = true;
+
+    const finishIfSettled = () => {
+      if (discovering || pending.size > 0) {
+        return;
+      }
+
+      if (failures.length === 0) {
+        resolve();
+      } else {
+        const [failure] = failures;
+        reject(
+          new Error(
+            `Failed to load ${failure.type} "${failure.url}" (${failure.status})`
+          )
+        );
+      }
+    };
+
+    scan((asset) => {
+      onAssetUpdate(asset);
+
+      if (!isSettled(asset)) {
+        pending.add(asset.id);
+        return;
+      }
+
+      pending.delete(asset.id);
+      if (asset.status !== "loaded") {
+        failures.push(asset);
+      }
+      finishIfSettled();
+    });
+
+    discovering = false;
+    finishIfSettled();
+  });
+}
+
+/**
+ * Preloads an image that is not part of the DOM
+ *
+ * Creates an off-DOM `Image` and tracks it with `scanImages`, so it is detected
+ * the same way as an `<img>` on the page.
+ *
+ * @param src - URL of the image to preload
+ * @param onAssetUpdate - Receives the image entry when discovered and when settled
+ * @param options - Optional timeout and abort signal
+ *
+ * @returns Promise that resolves once the image has loaded, or rejects if it fails or times out
+ *
+ * @example
+ * ```typescript
+ * await preloadImage("/images/level-2.png", reportAsset);
+ * ```
+ *
+ * @since 1.2.0
+ */
+export function preloadImage(
+  src: string,
+  onAssetUpdate: AssetUpdateHandler,
+  options: PreloadOptions = {}
+): Promise<void> {
+  const image = new Image();
+  image.src = src;
+
+  return trackUntilSettled(
+    (handler) => scanImages(handler, { ...options, elements: [image] }),
+    onAssetUpdate,
+    options.signal
+  );
+}
+
+/**
+ * Preloads a video that is not part of the DOM
+ *
+ * Creates an off-DOM, muted `<video>` with `preload="auto"` and tracks it with
+ * `scanVideos`, including its timeout protection.
+ *
+ * @param src - URL of the video to preload
+ * @param onAssetUpdate - Receives the video entry when discovered and when settled
+ * @param options - Optional timeout and abort signal
+ *
+ * @returns Promise that resolves once the video can play, or rejects if it fails or times out
+ *
+ * @since 1.2.0
+ */
+export function preloadVideo(
+  src: string,
+  onAssetUpdate: AssetUpdateHandler,
+  options: PreloadOptions = {}
+): Promise<void> {
+  const video = document.createElement("video");
+  video.preload = "auto";
+  video.muted = true;
+  video.src = src;
+  video.load();
+
+  return trackUntilSettled(
+    (handler) => scanVideos(handler, { ...options, elements: [video] }),
+    onAssetUpdate,
+    options.signal
+  );
+}
+
+/**
+ * Preloads an audio file that is not part of the DOM
+ *
+ * Creates an off-DOM `Audio` with `preload="auto"` and tracks it with
+ * `scanAudios`, including its timeout protection.
+ *
+ * @param src - URL of the audio file to preload
+ * @param onAssetUpdate - Receives the audio entry when discovered and when settled
+ * @param options - Optional timeout and abort signal
+ *
+ * @returns Promise that resolves once the audio can play, or rejects if it fails or times out
+ *
+ * @since 1.3.0
+ */
+export function preloadAudio(
+  src: string,
+  onAssetUpdate: AssetUpdateHandler,
+  options: PreloadOptions = {}
+): Promise<void> {
+  const audio = new Audio();
+  audio.preload = "auto";
+  audio.src = src;
+  audio.load();
+
+  return trackUntilSettled(
+    (handler) => scanAudios(handler, { ...options, elements: [audio] }),
+    onAssetUpdate,
+    options.signal
+  );
+}
+
+/**
+ * Loads a web font and tracks every face involved
+ *
+ * - **With `src`**: Creates a `FontFace` for the URL, registers it in `document.fonts`
+ *   and loads it
+ * - **Without `src`**: Loads the faces already declared for the family via `@font-face`
+ *
+ * @param fontFamily - Font family name, as used in CSS
+ * @param onAssetUpdate - Receives each font entry when discovered and when settled
+ * @param options - Optional URL of the font file (`src`), timeout and abort signal
+ *
+ * @returns Promise that resolves once every face has loaded, or rejects if one fails
+ *   or if no face is declared for the family
+ *
+ * @example
+ * ```typescript
+ * await preloadFont("Brand Sans", reportAsset, { src: "/fonts/brand-sans.woff2" });
+ * ```
+ *
+ * @since 1.2.0
+ */
+export function preloadFont(
+  fontFamily: string,
+  onAssetUpdate: AssetUpdateHandler,
+  options: PreloadOptions & { src?: string } = {}
+): Promise<void> {
+  const { src, ...scanOptions } = options;
+  let faces: FontFace[];
+
+  if (src) {
+    const face = new FontFace(fontFamily, `url(${JSON.stringify(src)})`);
+    document.fonts.add(face);
+    faces = [face];
+  } else {
+    faces = Array.from(document.fonts).filter(
+      (face) => face.family.replace(/^["']|["']$/g, "") === fontFamily
+    );
+  }
+
+  if (faces.length === 0) {
+    return Promise.reject(
+      new Error(`No @font-face is declared for "${fontFamily}"`)
+    );
+  }
+
+  // Start loading; failures are reported through the font scanner
+  faces.forEach((face) => face.load().catch(() => undefined));
+
+  return trackUntilSettled(
+    (handler) => scanFonts(handler, { ...scanOptions, elements: faces }),
+    onAssetUpdate,
+    options.signal
+  );
+}
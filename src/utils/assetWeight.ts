@@ -0,0 +1,135 @@
+import { TrackedAsset } from "../types";
+import { isSettled } from "./trackedAsset";
+
+/**
+ * Reads an explicit weight from the manifest entry or from the element's
+ * `data-asset-weight` attribute
+ *
+ * @returns The weight, or `undefined` when none is set or it is not a positive number
+ */
+function getExplicitWeight(asset: TrackedAsset): number | undefined {
+  if (asset.weight !== undefined) {
+    return asset.weight > 0 ? asset.weight : undefined;
+  }
+  if (!(asset.element instanceof Element)) {
+    return undefined;
+  }
+
+  const weight = Number(asset.element.getAttribute("data-asset-weight"));
+  return weight > 0 ? weight : undefined;
+}
+
+/**
+ * Looks up the size in bytes of a downloaded resource
+ *
+ * Prefers `encodedBodySize` (the payload as sent over the network) and falls back
+ * to `transferSize`. Both are 0 for cross-origin resources without
+ * `Timing-Allow-Origin`, in which case the size is unknown.
+ *
+ * @returns Size in bytes, or `undefined` when no usable timing entry exists yet
+ */
+function getResourceSize(url: string): number | undefined {
+  if (!url || typeof performance.getEntriesByName !== "function") {
+    return undefined;
+  }
+
+  const entries = performance.getEntriesByName(
+    url,
+    "resource"
+  ) as PerformanceResourceTiming[];
+  const entry = entries[entries.length - 1];
+  if (!entry) {
+    return undefined;
+  }
+
+  const size = entry.encodedBodySize || entry.transferSize;
+  return size > 0 ? size : undefined;
+}
+
+/**
+ * Estimates how much of a pending media element has been downloaded
+ *
+ * Uses the end of the last `buffered` range relative to the media duration.
+ *
+ * @returns Fraction between 0 and 1 (0 when nothing can be measured)
+ */
+function getBufferedFraction(asset: TrackedAsset): number {
+  const media = asset.element;
+  if (!(media instanceof HTMLMediaElement)) {
+    return 0;
+  }
+
+  const { buffered, duration } = media;
+  if (!buffered.length || !Number.isFinite(duration) || duration <= 0) {
+    return 0;
+  }
+
+  return Math.min(buffered.end(buffered.length - 1) / duration, 1);
+}
+
+/**
+ * Calculates loading progress weighted by asset size instead of asset count
+ *
+ * Backs `weighting: "bytes"` in `useAssetLoader`, so a 40 MB background video
+ * moves the bar far more than a 2 KB icon.
+ *
+ * **Weight sources, in order:**
+ * 1. `weight` of the manifest entry, or `data-asset-weight` attribute on the element
+ *    (any unit, as long as it is consistent)
+ * 2. `PerformanceResourceTiming` size (`encodedBodySize`, then `transferSize`)
+ * 3. The average of the known weights, for assets whose size is unknown
+ *
+ * When no weight is known at all, every asset weighs the same and the result equals
+ * count-based progress. Pending media elements contribute the fraction of their
+ * duration already present in their `buffered` ranges.
+ *
+ * A resource timing entry only exists once the download has finished, so until then
+ * an asset without an explicit weight counts as an average one: a large video only
+ * weighs its real size from the start when it carries `data-asset-weight`.
+ *
+ * @param assets - Every tracked asset
+ *
+ * @returns Progress as a percentage (0-100)
+ *
+ * @example
+ * ```html
+ * <!-- Explicit weights when the server does not expose sizes -->
+ * <video src="https://cdn.example.com/hero.mp4" data-asset-weight="40000000"></video>
+ * <img src="https://cdn.example.com/icon.svg" data-asset-weight="2000" />
+ * ```
+ *
+ * @since 1.2.0
+ * @see {@link https://developer.mozilla.org/en-US/docs/Web/API/PerformanceResourceTiming} PerformanceResourceTiming
+ */
+export function calculateByteWeightedProgress(assets: TrackedAsset[]): number {
+  if (assets.length === 0) {
+    return 0;
+  }
+
+  const weights = assets.map(
+    (asset) => getExplicitWeight(asset) ?? getResourceSize(asset.url)
+  );
+
+  // Unknown sizes count as an average asset; without any size, all weigh 1
+  const knownWeights = weights.filter(
+    (weight): weight is number => weight !== undefined
+  );
+  const fallbackWeight =
+    knownWeights.length > 0
+      ? knownWeights.reduce((sum, weight) => sum + weight, 0) /
+        knownWeights.length
+      : 1;
+
+  let totalWeight = 0;
+  let completedWeight = 0;
+
+  assets.forEach((asset, index) => {
+    const weight = weights[index] ?? fallbackWeight;
+    const completion = isSettled(asset) ? 1 : getBufferedFraction(asset);
+
+    totalWeight += weight;
+    completedWeight += weight * completion;
+  });
+
+  return (completedWeight / totalWeight) * 100;
+}
@@ -1,4 +1,14 @@
-import { Dispatch, SetStateAction } from "react";
+import { AssetUpdateHandler, ScannerOptions } from "../types";
+import { collectAssetElements } from "./assetObserver";
+import {
+  createTrackedAsset,
+  DEFAULT_TIMEOUT,
+  guardAssetUpdates,
+  resolveMediaUrl,
+  settleTrackedAsset,
+  waitForTimeout,
+} from "./trackedAsset";
+import { loadWithRetry, reloadMedia } from "./retryPolicy";
 
 /**
  * Automatically detects and tracks loading progress of audio elements on the page
@@ -10,10 +20,10 @@ import { Dispatch, SetStateAction } from "react";
  * audio content libraries.
  *
  * **Key Features:**
- * - **Complete Coverage**: Uses `document.querySelectorAll('audio')` for all audio elements
+ * - **Complete Coverage**: Finds every `<audio>` element in the document or in a scoped root container
  * - **Format Agnostic**: Handles MP3, OGG, WAV, AAC, and other HTML5 audio formats
  * - **Smart State Tracking**: Monitors HTML5 audio readyState for precise progress detection
- * - **Timeout Protection**: 7-second failsafe prevents indefinite loading on broken sources
+ * - **Timeout Protection**: Configurable failsafe (7 seconds by default) reports stuck sources as timed out
  * - **Concurrent Processing**: Manages multiple audio files loading simultaneously
  * - **Error Resilience**: Failed audio files don't prevent overall loading completion
  *
@@ -45,49 +55,41 @@ import { Dispatch, SetStateAction } from "react";
  * - **Bandwidth Awareness**: Timeout prevents excessive bandwidth consumption on failed loads
  * - **Battery Friendly**: Prevents infinite loading loops that drain device battery
  *
- * @param setLoadedCount - React state setter to increment successful audio load count
- * @param setFailedCount - React state setter to increment failed audio load count
+ * @param onAssetUpdate - Receives every audio entry when discovered and when settled (loaded, failed or timed out)
+ * @param options - Optional root container or exact elements to track (defaults to the whole document),
+ *   the timeout in milliseconds (defaults to 7000), and the retry policy (no retries by default).
+ *   Pass a `signal` to cancel the scan and remove its listeners and timers.
+ *   `filter` skips audio elements for which it returns `false`.
  *
  * @returns Object containing the total number of audio elements detected
  * @returns returns.totalAudios - Count of all `<audio>` elements found on the page
  *
  * @example
  * ```typescript
- * // Integration with React state for audio progress tracking
+ * // Audio progress from the reported entries
  * function AudioLoadingTracker() {
- *   const [loadedCount, setLoadedCount] = useState(0);
- *   const [failedCount, setFailedCount] = useState(0);
+ *   const [audios, setAudios] = useState<TrackedAsset[]>([]);
  *
- *   const { totalAudios } = scanAudios(setLoadedCount, setFailedCount);
+ *   useEffect(() => {
+ *     scanAudios((asset) =>
+ *       setAudios((prev) => [...prev.filter((a) => a.id !== asset.id), asset])
+ *     );
+ *   }, []);
  *
- *   const progress = totalAudios > 0 ? ((loadedCount + failedCount) / totalAudios) * 100 : 0;
+ *   const settled = audios.filter((audio) => audio.status !== "pending");
  *
  *   return (
  *     <div className="audio-progress">
- *       <div>Audio Files: {progress.toFixed(1)}% loaded</div>
- *       <div>{loadedCount} ready, {failedCount} failed of {totalAudios} total</div>
+ *       {settled.length} of {audios.length} audio files settled
+ *       {audios
+ *         .filter((audio) => audio.status === "timed-out")
+ *         .map((audio) => <div key={audio.id}>Timed out: {audio.url}</div>)}
  *     </div>
  *   );
  * }
  * ```
  *
  * @example
- * ```typescript
- * // Usage within comprehensive asset loading system
- * function useAssetLoader() {
- *   const [totalAssets, setTotalAssets] = useState(0);
- *   const [loadedAssets, setLoadedAssets] = useState(0);
- *
- *   useEffect(() => {
- *     const { totalAudios } = scanAudios(setLoadedAssets, setLoadedAssets);
- *     setTotalAssets(prev => prev + totalAudios);
- *   }, []);
- *
- *   return { totalAssets, loadedAssets };
- * }
- * ```
- *
- * @example
  * ```html
  * <!-- Various audio element types automatically detected -->
  *
@@ -152,11 +154,25 @@ import { Dispatch, SetStateAction } from "react";
  * @see {@link https://developer.mozilla.org/en-US/docs/Web/Media/Formats/Audio_codecs} Web Audio Codecs Guide
  */
 export function scanAudios(
-  setLoadedCount: Dispatch<SetStateAction<number>>,
-  setFailedCount: Dispatch<SetStateAction<number>>
+  onAssetUpdate: AssetUpdateHandler,
+  options: ScannerOptions<HTMLAudioElement> = {}
 ): { totalAudios: number } {
-  // Convert NodeList to Array for modern JavaScript iteration and manipulation
-  const audios = Array.from(document.querySelectorAll("audio"));
+  // Track the given elements, or discover every <audio> inside the root
+  const {
+    root = document,
+    elements,
+    timeout = DEFAULT_TIMEOUT,
+    signal,
+    retry,
+    filter,
+  } = options;
+
+  // Stop reporting once the scan is cancelled
+  const report = guardAssetUpdates(onAssetUpdate, signal);
+
+  const audios = (elements ?? collectAssetElements(root).audios).filter(
+    (audio) => filter?.(audio) ?? true
+  );
   const totalAudios = audios.length;
 
   /**
@@ -169,104 +185,133 @@ export function scanAudios(
    * - **Error Isolation**: One problematic audio file doesn't affect others
    */
   const audioPromises = audios.map((audio) => {
-    /**
-     * Primary loading promise: Natural audio loading progression
-     *
-     * Monitors the audio element's loading process through HTML5 media events
-     * and readyState progression. This handles the standard audio loading flow
-     * where files load successfully within reasonable timeframes.
-     */
-    const audioLoadingPromise = new Promise<"loaded" | "failed">((resolve) => {
-      /**
-       * Fast path optimization: Check for already-loaded audio
-       *
-       * readyState >= 4 (HAVE_ENOUGH_DATA) means the browser has sufficient
-       * audio data for complete playback without buffering interruptions.
-       * This fast path handles:
-       * - Browser-cached audio from previous sessions
-       * - Small audio files that load instantly
-       * - Pre-buffered audio with aggressive preload settings
-       * - Audio files loaded by other parts of the application
-       */
-      if (audio.readyState >= 4) {
-        resolve("loaded");
-        return;
-      }
+    const asset = createTrackedAsset("audio", resolveMediaUrl(audio), audio);
+    report(asset);
 
+    /** Waits for one loading attempt of the audio to settle */
+    const waitForAudio = () => {
       /**
-       * Standard path: Event-driven loading detection
+       * Primary loading promise: Natural audio loading progression
        *
-       * For audio files not yet fully buffered, we establish event listeners
-       * to monitor HTML5 audio loading events and detect completion or failure.
+       * Monitors the audio element's loading process through HTML5 media events
+       * and readyState progression. This handles the standard audio loading flow
+       * where files load successfully within reasonable timeframes.
        */
+      const audioLoadingPromise = new Promise<"loaded" | "failed">((resolve) => {
+        /**
+         * Fast path optimization: Check for already-loaded audio
+         *
+         * readyState >= 4 (HAVE_ENOUGH_DATA) means the browser has sufficient
+         * audio data for complete playback without buffering interruptions.
+         * This fast path handles:
+         * - Browser-cached audio from previous sessions
+         * - Small audio files that load instantly
+         * - Pre-buffered audio with aggressive preload settings
+         * - Audio files loaded by other parts of the application
+         */
+        if (audio.readyState >= 4) {
+          resolve("loaded");
+          return;
+        }
+
+        /**
+         * Standard path: Event-driven loading detection
+         *
+         * For audio files not yet fully buffered, we establish event listeners
+         * to monitor HTML5 audio loading events and detect completion or failure.
+         */
+
+        /**
+         * Success detection: 'canplay' event
+         *
+         * The 'canplay' event fires when the browser determines it can start
+         * playing the audio, even if complete buffering isn't finished.
+         * This represents the audio being "ready for use" from a user perspective.
+         *
+         * Key characteristics:
+         * - Fires once sufficient data is buffered for playback start
+         * - Indicates audio is usable even if not 100% downloaded
+         * - Most reliable cross-browser indicator of audio readiness
+         */
+        audio.addEventListener("canplay", () => resolve("loaded"), {
+          once: true,
+          signal,
+        });
+
+        /**
+         * Failure detection: 'error' event
+         *
+         * The 'error' event fires when audio loading encounters problems:
+         * - **Network Errors**: 404 Not Found, connection timeouts, DNS failures
+         * - **Format Issues**: Unsupported codec, corrupted file headers
+         * - **Security Problems**: CORS violations, blocked mixed content
+         * - **Server Issues**: 500 errors, rate limiting, temporary unavailability
+         * - **Browser Limitations**: Mobile restrictions, codec support gaps
+         */
+        audio.addEventListener("error", () => resolve("failed"), {
+          once: true,
+          signal,
+        });
+      });
 
       /**
-       * Success detection: 'canplay' event
+       * Timeout promise: Essential failsafe for audio-specific challenges
+       *
+       * Audio files present unique loading challenges that require timeout protection:
+       *
+       * **Mobile Browser Issues:**
+       * - iOS Safari requires user interaction before audio loading
+       * - Android Chrome may throttle audio loading in background tabs
+       * - Mobile data connections can cause indefinite audio loading states
+       *
+       * **Codec Compatibility Problems:**
+       * - Some browsers silently fail on unsupported audio formats
+       * - Partial codec support can cause hanging without error events
+       * - Progressive enhancement scenarios where fallback codecs don't trigger
        *
-       * The 'canplay' event fires when the browser determines it can start
-       * playing the audio, even if complete buffering isn't finished.
-       * This represents the audio being "ready for use" from a user perspective.
+       * **Network-Specific Issues:**
+       * - Audio streaming can hang on poor connections without clear failure signals
+       * - CDN issues may cause audio to load partially and then stall
+       * - Proxy servers and corporate firewalls can interfere with audio loading
        *
-       * Key characteristics:
-       * - Fires once sufficient data is buffered for playback start
-       * - Indicates audio is usable even if not 100% downloaded
-       * - Most reliable cross-browser indicator of audio readiness
+       * The 7-second timeout ensures these edge cases don't prevent loading completion.
        */
-      audio.addEventListener("canplay", () => resolve("loaded"), {
-        once: true,
-      });
+      const timeoutPromise = waitForTimeout(timeout, signal);
 
       /**
-       * Failure detection: 'error' event
+       * Promise.race(): Competitive resolution between loading and timeout
+       *
+       * This creates a race between:
+       * 1. **Natural audio loading**: Success via 'canplay' or failure via 'error'
+       * 2. **Timeout protection**: Reported as "timed-out" after the configured timeout
        *
-       * The 'error' event fires when audio loading encounters problems:
-       * - **Network Errors**: 404 Not Found, connection timeouts, DNS failures
-       * - **Format Issues**: Unsupported codec, corrupted file headers
-       * - **Security Problems**: CORS violations, blocked mixed content
-       * - **Server Issues**: 500 errors, rate limiting, temporary unavailability
-       * - **Browser Limitations**: Mobile restrictions, codec support gaps
+       * The first Promise to resolve determines the outcome, ensuring that
+       * every audio element eventually reaches a definitive state (loaded or failed).
+       * This prevents indefinite loading states that would break progress tracking.
        */
-      audio.addEventListener("error", () => resolve("failed"), { once: true });
-    });
-
-    /**
-     * Timeout promise: Essential failsafe for audio-specific challenges
-     *
-     * Audio files present unique loading challenges that require timeout protection:
-     *
-     * **Mobile Browser Issues:**
-     * - iOS Safari requires user interaction before audio loading
-     * - Android Chrome may throttle audio loading in background tabs
-     * - Mobile data connections can cause indefinite audio loading states
-     *
-     * **Codec Compatibility Problems:**
-     * - Some browsers silently fail on unsupported audio formats
-     * - Partial codec support can cause hanging without error events
-     * - Progressive enhancement scenarios where fallback codecs don't trigger
-     *
-     * **Network-Specific Issues:**
-     * - Audio streaming can hang on poor connections without clear failure signals
-     * - CDN issues may cause audio to load partially and then stall
-     * - Proxy servers and corporate firewalls can interfere with audio loading
-     *
-     * The 7-second timeout ensures these edge cases don't prevent loading completion.
-     */
-    const timeoutPromise = new Promise<"loaded" | "failed">((resolve) =>
-      setTimeout(() => resolve("failed"), 7000)
-    );
+      return Promise.race([audioLoadingPromise, timeoutPromise]);
+    };
 
     /**
-     * Promise.race(): Competitive resolution between loading and timeout
-     *
-     * This creates a race between:
-     * 1. **Natural audio loading**: Success via 'canplay' or failure via 'error'
-     * 2. **Timeout protection**: Automatic failure after 7 seconds
-     *
-     * The first Promise to resolve determines the outcome, ensuring that
-     * every audio element eventually reaches a definitive state (loaded or failed).
-     * This prevents indefinite loading states that would break progress tracking.
+     * Retry policy: a failed or timed-out audio is reloaded (optionally with
+     * cache-busting) and reported as "retrying" until an attempt succeeds or
+     * the attempts run out. Each attempt gets its own timeout.
      */
-    return Promise.race([audioLoadingPromise, timeoutPromise]);
+    return {
+      audio,
+      result: loadWithRetry(
+        asset,
+        (attempt) => {
+          if (attempt > 1) {
+            reloadMedia(audio, attempt, retry?.cacheBust);
+          }
+          return waitForAudio();
+        },
+        report,
+        retry,
+        signal
+      ),
+    };
   });
 
   /**
@@ -276,28 +321,15 @@ export function scanAudios(
    * updates as individual audio files complete loading, encounter errors,
    * or exceed the timeout threshold.
    */
-  audioPromises.forEach((audioPromise) => {
-    audioPromise.then((result) => {
-      if (result === "loaded") {
-        /**
-         * Success case: Audio ready for playback within timeout period
-         *
-         * This indicates the audio file has loaded sufficient data for playback.
-         * Uses functional state update pattern to handle concurrent audio loading
-         * without race conditions or state corruption.
-         */
-        setLoadedCount((previousCount) => previousCount + 1);
-      } else {
-        /**
-         * Failure case: Audio failed to load or exceeded timeout threshold
-         *
-         * This covers both explicit failures (error events) and timeout failures.
-         * Both types count toward completion because they represent finished
-         * processing - the audio is either available or definitively unavailable.
-         * This ensures progress tracking always reaches 100% completion.
-         */
-        setFailedCount((previousCount) => previousCount + 1);
-      }
+  audioPromises.forEach(({ audio, result }) => {
+    result.then(({ asset, outcome }) => {
+      /**
+       * Report the settled entry with the source the browser actually selected
+       *
+       * Natural failures (error events) are reported as "failed" and timeouts as
+       * "timed-out"; both count toward completion so progress always reaches 100%.
+       */
+      report(settleTrackedAsset(asset, outcome, resolveMediaUrl(audio)));
     });
   });
 
@@ -0,0 +1,348 @@
+import { AssetUpdateHandler, ScannerOptions } from "../types";
+import {
+  createTrackedAsset,
+  guardAssetUpdates,
+  settleTrackedAsset,
+  waitForTimeout,
+} from "./trackedAsset";
+import { cacheBustUrl, loadWithRetry } from "./retryPolicy";
+
+/**
+ * CSS properties whose computed value can reference images
+ */
+const IMAGE_PROPERTIES = [
+  "background-image",
+  "border-image-source",
+  "mask-image",
+  "-webkit-mask-image",
+  "content",
+];
+
+/**
+ * Pseudo-elements checked in addition to the element itself
+ * (decorative images are often attached through `::before`/`::after`)
+ */
+const PSEUDO_ELEMENTS = [null, "::before", "::after"];
+
+/**
+ * Finds the end of a parenthesized CSS function, skipping quoted strings
+ *
+ * @param value - CSS value
+ * @param start - Index right after the opening parenthesis
+ *
+ * @returns Index of the matching closing parenthesis (the value's length when unclosed)
+ */
+function findClosingParenthesis(value: string, start: number): number {
+  let depth = 1;
+  let quote: string | null = null;
+
+  for (let index = start; index < value.length; index++) {
+    const character = value[index];
+    if (quote) {
+      if (character === quote) {
+        quote = null;
+      }
+    } else if (character === '"' || character === "'") {
+      quote = character;
+    } else if (character === "(") {
+      depth++;
+    } else if (character === ")" && --depth === 0) {
+      return index;
+    }
+  }
+
+  return value.length;
+}
+
+/**
+ * Splits the arguments of a CSS function on the commas that are not nested
+ * inside parentheses or quotes
+ */
+function splitArguments(value: string): string[] {
+  const parts: string[] = [];
+  let start = 0;
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let index = 0; index < value.length; index++) {
+    const character = value[index];
+    if (quote) {
+      if (character === quote) {
+        quote = null;
+      }
+    } else if (character === '"' || character === "'") {
+      quote = character;
+    } else if (character === "(") {
+      depth++;
+    } else if (character === ")") {
+      depth--;
+    } else if (character === "," && depth === 0) {
+      parts.push(value.slice(start, index));
+      start = index + 1;
+    }
+  }
+
+  return [...parts, value.slice(start)];
+}
+
+/**
+ * Reads the resolution of an `image-set()` candidate as a device pixel ratio
+ * (`1x` when none is given)
+ */
+function getCandidateResolution(candidate: string): number {
+  // Only look after the image itself, whose URL could contain "2x"
+  const descriptors = candidate.replace(/url\(.*?\)|(["']).*?\1/g, "");
+  const match = descriptors.match(/(\d*\.?\d+)(x|dppx|dpi|dpcm)\b/);
+  if (!match) {
+    return 1;
+  }
+
+  const amount = Number(match[1]);
+  if (match[2] === "dpi") {
+    return amount / 96;
+  }
+  if (match[2] === "dpcm") {
+    return (amount * 2.54) / 96;
+  }
+  return amount;
+}
+
+/**
+ * Picks the `image-set()` candidate the browser downloads for this screen
+ *
+ * Like the browser, the lowest resolution that covers `devicePixelRatio` wins,
+ * or the highest one when none does. `type()` hints are not checked.
+ *
+ * @returns The candidate as a `url(...)` reference, or an empty string when it has no image
+ */
+function selectImageSetCandidate(candidates: string): string {
+  const ratio = window.devicePixelRatio || 1;
+
+  const sorted = splitArguments(candidates)
+    .map((candidate) => {
+      const image = candidate.trim().match(/^(?:url\(.*?\)|(["']).*?\1)/);
+      return {
+        image: image ? image[0] : "",
+        resolution: getCandidateResolution(candidate),
+      };
+    })
+    .filter(({ image }) => image !== "")
+    .sort((a, b) => a.resolution - b.resolution);
+
+  const selected =
+    sorted.find(({ resolution }) => resolution >= ratio) ??
+    sorted[sorted.length - 1];
+  if (!selected) {
+    return "";
+  }
+
+  // Bare strings are URLs too, in browsers that keep them unwrapped
+  return selected.image.startsWith("url(")
+    ? selected.image
+    : `url(${selected.image})`;
+}
+
+/**
+ * Replaces every `image-set()`/`-webkit-image-set()` of a CSS value with the
+ * candidate the browser downloads, so the others are not loaded
+ */
+function resolveImageSets(value: string): string {
+  const pattern = /(?:-webkit-)?image-set\(/g;
+  let resolved = "";
+  let consumed = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(value)) !== null) {
+    const start = match.index + match[0].length;
+    const end = findClosingParenthesis(value, start);
+
+    resolved +=
+      value.slice(consumed, match.index) +
+      selectImageSetCandidate(value.slice(start, end));
+    consumed = end + 1;
+    pattern.lastIndex = consumed;
+  }
+
+  return resolved + value.slice(consumed);
+}
+
+/**
+ * Extracts the image URLs referenced by a computed CSS value
+ *
+ * Handles `url(...)` references (quoted or not), and the candidate of each
+ * `image-set()`/`-webkit-image-set()` that matches the screen's pixel ratio.
+ * Gradients and other non-URL images are ignored.
+ */
+function extractImageUrls(value: string): string[] {
+  if (!value || value === "none" || value === "normal") {
+    return [];
+  }
+
+  const urls: string[] = [];
+  for (const reference of resolveImageSets(value).matchAll(
+    /url\(\s*(["']?)(.*?)\1\s*\)/g
+  )) {
+    urls.push(reference[2]);
+  }
+
+  // Inline data URIs need no download
+  return urls.filter((url) => url !== "" && !url.startsWith("data:"));
+}
+
+/**
+ * Whether the browser renders an element, and so downloads its CSS images
+ *
+ * Elements that generate no box (`display: none` on them or an ancestor) are
+ * skipped. `checkVisibility()` is missing from older browsers, which only get the
+ * element's own `display` checked.
+ */
+function isRendered(element: Element): boolean {
+  if (typeof element.checkVisibility === "function") {
+    return element.checkVisibility();
+  }
+  return getComputedStyle(element).display !== "none";
+}
+
+/**
+ * Whether a `::before`/`::after` pseudo-element is generated
+ *
+ * Without a `content` value the pseudo-element does not exist, and neither do
+ * its images.
+ */
+function isGeneratedPseudoElement(style: CSSStyleDeclaration): boolean {
+  return (
+    style.content !== "none" &&
+    style.content !== "normal" &&
+    style.display !== "none"
+  );
+}
+
+/**
+ * Automatically detects and tracks images referenced from CSS
+ *
+ * Hero sections, cards and decorative elements often use CSS images instead of
+ * `<img>`, so `scanImages` never sees them. This scanner reads the computed styles of
+ * every element in the scope (and of its `::before`/`::after` pseudo-elements) and
+ * tracks each referenced image with an off-DOM `Image`.
+ *
+ * **Detected References:**
+ * - `background-image`, including multiple layers
+ * - `border-image` (via `border-image-source`)
+ * - `mask-image` and `-webkit-mask-image`
+ * - `content: url(...)`
+ * - The candidate of `image-set()` matching `devicePixelRatio`, the only one the
+ *   browser downloads
+ *
+ * Elements that are not rendered (`display: none`) and `::before`/`::after`
+ * pseudo-elements that are not generated are skipped, since the browser never
+ * downloads their images.
+ *
+ * **How it works:**
+ * 1. Collects image URLs from the computed styles of the elements in the scope
+ * 2. Counts each URL once, no matter how many elements reference it
+ * 3. Loads every URL with an off-DOM `Image`; already-downloaded images resolve from cache
+ * 4. Reports each image as `pending`, then as `loaded`, `failed` or `timed-out`
+ *
+ * **Performance Considerations:**
+ * Computed styles are read for every element, which forces a style recalculation.
+ * On very large documents, scope the scan with a `root` container.
+ *
+ * @param onAssetUpdate - Receives every background entry when discovered and when settled
+ * @param options - Optional root container or exact elements to inspect (defaults to the
+ *   whole document), the timeout in milliseconds (no timeout by default), and the retry
+ *   policy (no retries by default; retried URLs can be cache-busted).
+ *   Pass a `signal` to cancel the scan and remove its listeners and timers.
+ *   `filter` skips the elements whose CSS images should not be tracked.
+ *
+ * @returns Object containing the total number of unique CSS image URLs detected
+ * @returns returns.totalBackgrounds - Count of unique image URLs referenced from CSS
+ *
+ * @example
+ * ```typescript
+ * const { totalBackgrounds } = scanBackgrounds((asset) => {
+ *   if (asset.status === "failed") {
+ *     console.warn(`Broken CSS image ${asset.url} on`, asset.element);
+ *   }
+ * });
+ * ```
+ *
+ * @since 1.2.0
+ * @see {@link https://developer.mozilla.org/en-US/docs/Web/CSS/image/image-set} image-set()
+ */
+export function scanBackgrounds(
+  onAssetUpdate: AssetUpdateHandler,
+  options: ScannerOptions<Element> = {}
+): { totalBackgrounds: number } {
+  const {
+    root = document,
+    elements,
+    timeout,
+    signal,
+    retry,
+    filter,
+  } = options;
+
+  // Stop reporting once the scan is cancelled
+  const report = guardAssetUpdates(onAssetUpdate, signal);
+
+  const candidates = (
+    elements ?? [
+      ...(root instanceof Element ? [root] : []),
+      ...Array.from(root.querySelectorAll("*")),
+    ]
+  ).filter((element) => (filter?.(element) ?? true) && isRendered(element));
+
+  // First element referencing each absolute URL
+  const references = new Map<string, Element>();
+
+  candidates.forEach((element) => {
+    PSEUDO_ELEMENTS.forEach((pseudo) => {
+      const style = getComputedStyle(element, pseudo);
+      if (pseudo && !isGeneratedPseudoElement(style)) {
+        return;
+      }
+
+      IMAGE_PROPERTIES.forEach((property) => {
+        extractImageUrls(style.getPropertyValue(property)).forEach((url) => {
+          const absoluteUrl = new URL(url, document.baseURI).href;
+          if (!references.has(absoluteUrl)) {
+            references.set(absoluteUrl, element);
+          }
+        });
+      });
+    });
+  });
+
+  references.forEach((element, url) => {
+    const asset = createTrackedAsset("background", url, element);
+    report(asset);
+
+    /** Loads the URL once, with a fresh off-DOM image for every attempt */
+    const loadBackground = (attempt: number) => {
+      const loadImage = new Promise<"loaded" | "failed">((resolve) => {
+        const image = new Image();
+        image.addEventListener("load", () => resolve("loaded"), {
+          once: true,
+          signal,
+        });
+        image.addEventListener("error", () => resolve("failed"), {
+          once: true,
+          signal,
+        });
+        image.src =
+          attempt > 1 && retry?.cacheBust ? cacheBustUrl(url, attempt) : url;
+      });
+
+      // Optional timeout protection, as for <img> elements
+      return timeout === undefined
+        ? loadImage
+        : Promise.race([loadImage, waitForTimeout(timeout, signal)]);
+    };
+
+    loadWithRetry(asset, loadBackground, report, retry, signal).then(
+      ({ asset: latest, outcome }) => report(settleTrackedAsset(latest, outcome))
+    );
+  });
+
+  return { totalBackgrounds: references.size };
+}
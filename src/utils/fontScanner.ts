@@ -1,5 +1,198 @@
-// @ts-nocheck
-import { Dispatch, SetStateAction } from "react";
+import { AssetUpdateHandler, FontScannerOptions } from "../types";
+import {
+  createTrackedAsset,
+  DEFAULT_TIMEOUT,
+  guardAssetUpdates,
+  settleTrackedAsset,
+  waitForTimeout,
+} from "./trackedAsset";
+
+/**
+ * Normalizes a font family name for comparison (quotes removed, lowercase)
+ */
+function normalizeFamily(family: string): string {
+  return family.trim().replace(/^["']|["']$/g, "").toLowerCase();
+}
+
+/**
+ * CSS generic families; `ui-*` families are matched by prefix
+ */
+const GENERIC_FAMILIES = [
+  "serif",
+  "sans-serif",
+  "monospace",
+  "cursive",
+  "fantasy",
+  "system-ui",
+  "math",
+  "emoji",
+  "fangsong",
+];
+
+/**
+ * Whether an entry of a `font-family` stack is a generic family
+ *
+ * Only unquoted names are keywords: `"serif"` in quotes is a family named serif.
+ */
+function isGenericFamily(name: string): boolean {
+  const keyword = name.trim().toLowerCase();
+  return GENERIC_FAMILIES.includes(keyword) || keyword.startsWith("ui-");
+}
+
+/**
+ * A family/weight/style combination rendered by text, with the characters it renders
+ */
+interface UsedFont {
+  /** Normalized family name */
+  family: string;
+  weight: string;
+  style: string;
+  text: Set<string>;
+}
+
+/**
+ * Collects the font combinations used by text inside a container
+ *
+ * Only elements that directly contain non-whitespace text are considered. Each one
+ * is counted for the first declared family of its computed `font-family` stack;
+ * the families after it only serve as fallbacks. A generic family always resolves
+ * to a system font, so the stack is not read past one, and elements without a
+ * declared family before it are skipped. The characters are kept so that faces
+ * split by `unicode-range` (e.g. latin / cyrillic subsets) are matched like the
+ * browser would.
+ *
+ * @param declaredFamilies - Normalized names of the declared web font families
+ */
+function collectUsedFonts(
+  root: ParentNode,
+  declaredFamilies: Set<string>
+): Map<string, UsedFont> {
+  const usedFonts = new Map<string, UsedFont>();
+  const elements = [
+    ...(root instanceof Element ? [root] : []),
+    ...Array.from(root.querySelectorAll("*")),
+  ];
+
+  elements.forEach((element) => {
+    const text = Array.from(element.childNodes)
+      .filter((child) => child.nodeType === Node.TEXT_NODE)
+      .map((child) => child.textContent)
+      .join("")
+      .trim();
+    if (text === "") {
+      return;
+    }
+
+    const { fontFamily, fontWeight, fontStyle } = getComputedStyle(element);
+    const stack = fontFamily.split(",");
+    const genericIndex = stack.findIndex(isGenericFamily);
+    const family = (genericIndex === -1 ? stack : stack.slice(0, genericIndex))
+      .map(normalizeFamily)
+      .find((name) => declaredFamilies.has(name));
+    if (family === undefined) {
+      return;
+    }
+
+    const key = `${family} ${fontWeight} ${fontStyle}`;
+    let usedFont = usedFonts.get(key);
+    if (!usedFont) {
+      usedFont = {
+        family,
+        weight: fontWeight,
+        style: fontStyle,
+        text: new Set(),
+      };
+      usedFonts.set(key, usedFont);
+    }
+    const { text: usedText } = usedFont;
+    Array.from(text).forEach((character) => usedText.add(character));
+  });
+
+  return usedFonts;
+}
+
+/**
+ * Tracks only the font combinations rendered inside the root ("used" mode)
+ *
+ * Each combination whose family is declared is loaded with `document.fonts.load()`
+ * for the text it renders and reported as one asset; system and generic families
+ * are skipped. The faces the browser loaded are the used ones, and the others are
+ * handed to `onUnused` once every combination has settled. When a combination
+ * fails or times out, the faces of its family are left out of the unused list.
+ *
+ * @returns Number of combinations tracked
+ */
+function scanUsedFonts(
+  fonts: FontFace[],
+  report: AssetUpdateHandler,
+  {
+    root,
+    timeout,
+    signal,
+    onUnused,
+  }: FontScannerOptions & { root: ParentNode; timeout: number }
+): number {
+  // Declared faces by family, so only web fonts are loaded
+  const facesByFamily = new Map<string, FontFace[]>();
+  fonts.forEach((font) => {
+    const family = normalizeFamily(font.family);
+    facesByFamily.set(family, [...(facesByFamily.get(family) ?? []), font]);
+  });
+
+  const usedFaces = new Set<FontFace>();
+  const settled: Promise<void>[] = [];
+
+  const usedFonts = collectUsedFonts(root, new Set(facesByFamily.keys()));
+  usedFonts.forEach(({ family, weight, style, text }) => {
+    const faces = facesByFamily.get(family);
+    if (!faces) {
+      return;
+    }
+
+    // The entry's face is the closest declared match; the browser may load others
+    const face =
+      faces.find((font) => font.weight === weight && font.style === style) ??
+      faces[0];
+    const asset = createTrackedAsset(
+      "font",
+      `${face.family} ${weight} ${style}`,
+      face
+    );
+    report(asset);
+
+    const fontPromise = document.fonts
+      .load(
+        `${style} ${weight} 16px "${face.family.replace(/"/g, '\\"')}"`,
+        Array.from(text).join("")
+      )
+      .then(
+        (loadedFaces) => {
+          loadedFaces.forEach((font) => usedFaces.add(font));
+          return "loaded" as const;
+        },
+        () => "failed" as const
+      );
+
+    settled.push(
+      Promise.race([fontPromise, waitForTimeout(timeout, signal)]).then(
+        (result) => {
+          if (result !== "loaded") {
+            faces.forEach((font) => usedFaces.add(font));
+          }
+          report(settleTrackedAsset(asset, result));
+        }
+      )
+    );
+  });
+
+  Promise.all(settled).then(() => {
+    if (!signal?.aborted) {
+      onUnused?.(fonts.filter((font) => !usedFaces.has(font)));
+    }
+  });
+
+  return settled.length;
+}
 
 /**
  * Automatically detects and tracks loading progress of web fonts on the page
@@ -10,8 +203,11 @@ import { Dispatch, SetStateAction } from "react";
  * **Key Features:**
  * - Automatic detection of all declared web fonts using the document.fonts API
  * - Real-time tracking of fonts in all loading states (loaded, loading, error, unloaded)
- * - 7-second timeout protection prevents stuck progress on problematic fonts
+ * - Configurable timeout (7 seconds by default) prevents stuck progress on problematic fonts
  * - Counts all declared fonts as assets, regardless of usage status
+ * - Scoped mode: with a root container, only families used by text inside it are counted
+ * - Used mode: only the family/weight/style combinations rendered by text are loaded
+ *   and counted, and the other declared faces are reported to `onUnused`
  *
  * **Font Loading States Handled:**
  * - `loaded`: Font successfully downloaded and ready → Count immediately as loaded
@@ -20,7 +216,7 @@ import { Dispatch, SetStateAction } from "react";
  * - `unloaded`: Font declared but not yet activated → Count as loaded (available for use)
  *
  * **Timeout Protection:**
- * Uses Promise.race() with a 7-second timeout to handle fonts that get stuck in loading state.
+ * Uses Promise.race() with a timeout (7 seconds by default) to handle fonts that get stuck in loading state.
  * This prevents the progress tracker from never reaching 100% due to network issues or corrupted fonts.
  *
  * **Performance Considerations:**
@@ -28,18 +224,24 @@ import { Dispatch, SetStateAction } from "react";
  * - Uses efficient FontFace API promises for minimal performance impact
  * - Handles up to hundreds of font variants without blocking the main thread
  *
- * @param setLoadedCount - React state setter function to increment the count of successfully loaded fonts
- * @param setFailedCount - React state setter function to increment the count of failed fonts
+ * @param onAssetUpdate - Receives every font entry when discovered and when settled
+ * @param options - Optional root container (only fonts whose family is used by text inside it are tracked)
+ *   or exact `FontFace` objects to track, and the timeout in milliseconds (defaults to 7000).
+ *   Pass a `signal` to cancel the scan and remove its listeners and timers.
+ *   `filter` receives each `FontFace` and skips those for which it returns `false`,
+ *   e.g. by `family`. With `mode: "used"` (ignored when `elements` are given), only
+ *   the combinations rendered by text inside the root are tracked.
  *
  * @returns Object containing the total number of fonts detected and being tracked
  *
  * @example
  * ```typescript
  * // Usage within asset loading system
- * const { totalFonts } = scanFonts(
- *   (count) => setLoadedCount(prev => prev + count),
- *   (count) => setFailedCount(prev => prev + count)
- * );
+ * const { totalFonts } = scanFonts((asset) => {
+ *   if (asset.status !== "pending") {
+ *     console.log(`${asset.url}: ${asset.status}`); // e.g. "Roboto 700 italic: loaded"
+ *   }
+ * });
  * console.log(`Tracking ${totalFonts} web fonts`);
  * ```
  *
@@ -52,63 +254,118 @@ import { Dispatch, SetStateAction } from "react";
  * // - Total: 5 fonts tracked
  * ```
  *
+ * @example
+ * ```typescript
+ * // Only wait for the faces the page renders; 30 declared weights, 2 used
+ * scanFonts(reportAsset, {
+ *   mode: "used",
+ *   onUnused: (faces) => console.info(`${faces.length} font faces are never used`),
+ * });
+ * ```
+ *
  * @since 1.1.0
  * @see {@link https://developer.mozilla.org/en-US/docs/Web/API/FontFace} FontFace API Documentation
  * @see {@link https://developer.mozilla.org/en-US/docs/Web/API/Document/fonts} document.fonts Documentation
  */
 export function scanFonts(
-  setLoadedCount: Dispatch<SetStateAction<number>>,
-  setFailedCount: Dispatch<SetStateAction<number>>
+  onAssetUpdate: AssetUpdateHandler,
+  options: FontScannerOptions = {}
 ): { totalFonts: number } {
+  const {
+    root = document,
+    elements,
+    timeout = DEFAULT_TIMEOUT,
+    signal,
+    filter,
+    mode = "declared",
+    onUnused,
+  } = options;
+
+  // Stop reporting once the scan is cancelled
+  const report = guardAssetUpdates(onAssetUpdate, signal);
+
   // Convert FontFaceSet to array for efficient iteration
-  const fonts = Array.from(document.fonts);
+  let fonts = (elements ?? Array.from(document.fonts)).filter(
+    (font) => filter?.(font) ?? true
+  );
+
+  // Used mode: load and track exactly what the text inside the root renders
+  if (!elements && mode === "used") {
+    return {
+      totalFonts: scanUsedFonts(fonts, report, {
+        root,
+        timeout,
+        signal,
+        onUnused,
+      }),
+    };
+  }
+
+  // Scoped scan: keep only the faces whose family is rendered inside the root
+  if (!elements && root !== document) {
+    const declaredFamilies = new Set(
+      fonts.map((font) => normalizeFamily(font.family))
+    );
+    const usedFamilies = new Set(
+      Array.from(
+        collectUsedFonts(root, declaredFamilies).values(),
+        (usedFont) => usedFont.family
+      )
+    );
+    fonts = fonts.filter((font) =>
+      usedFamilies.has(normalizeFamily(font.family))
+    );
+  }
   let totalFonts = 0;
 
   // Process each declared font based on its current loading state
   fonts.forEach((font) => {
+    // Fonts are identified by their descriptors since a FontFace has no single URL
+    const asset = createTrackedAsset(
+      "font",
+      `${font.family} ${font.weight} ${font.style}`,
+      font
+    );
+
     if (font.status === "loaded") {
       // Font has already finished loading successfully
       // This typically happens with cached fonts on subsequent page loads
-      setLoadedCount((prev) => prev + 1);
+      report(asset);
+      report(settleTrackedAsset(asset, "loaded"));
       totalFonts++;
     } else if (font.status === "error") {
       // Font has already failed to load (network error, invalid file, etc.)
-      setFailedCount((prev) => prev + 1);
+      report(asset);
+      report(settleTrackedAsset(asset, "failed"));
       totalFonts++;
     } else if (font.status === "unloaded") {
       // Font is declared (via @font-face) but not yet activated by CSS usage
       // We count these as "loaded" since they're available and don't need download time
       // This prevents intermittent 0-count issues when fonts haven't been activated yet
-      setLoadedCount((prev) => prev + 1);
+      report(asset);
+      report(settleTrackedAsset(asset, "loaded"));
       totalFonts++;
       return;
     } else if (font.status === "loading") {
       // Font is currently downloading - set up promise-based tracking with timeout protection
+      report(asset);
       totalFonts++;
 
       // Use the FontFace API's built-in promise that resolves when loading completes
       // Convert both success and failure cases to predictable string results
       const fontPromise = font.loaded.then(
-        () => "loaded", // Font downloaded successfully
-        () => "failed" // Font failed to download (network error, CORS, invalid file)
+        () => "loaded" as const, // Font downloaded successfully
+        () => "failed" as const // Font failed to download (network error, CORS, invalid file)
       );
 
-      // Create timeout promise to prevent indefinite waiting (7 seconds)
+      // Create timeout promise to prevent indefinite waiting (7 seconds by default)
       // This handles edge cases like network timeouts or corrupted font files
-      const timeoutPromise = new Promise<"failed">((resolve) =>
-        setTimeout(() => resolve("failed"), 7000)
-      );
+      const timeoutPromise = waitForTimeout(timeout, signal);
 
       // Race between actual font loading and timeout
-      // Whichever completes first determines the result
+      // Whichever completes first determines the result: loaded, failed, or timed out
       Promise.race([fontPromise, timeoutPromise]).then((result) => {
-        if (result === "loaded") {
-          // Font loaded successfully within the timeout period
-          setLoadedCount((prev) => prev + 1);
-        } else {
-          // Font either failed to load or timed out after 7 seconds
-          setFailedCount((prev) => prev + 1);
-        }
+        report(settleTrackedAsset(asset, result));
       });
     }
   });
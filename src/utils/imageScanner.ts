@@ -1,3 +1,55 @@
+import {
+  AssetUpdateHandler,
+  ImageScannerOptions,
+  TrackedAsset,
+} from "../types";
+import { collectAssetElements } from "./assetObserver";
+import {
+  createTrackedAsset,
+  guardAssetUpdates,
+  resolveMediaUrl,
+  restartTrackedAsset,
+  settleTrackedAsset,
+  waitForTimeout,
+} from "./trackedAsset";
+import { loadWithRetry, reloadImage } from "./retryPolicy";
+
+/**
+ * Checks whether an element is rendered inside the viewport
+ * Hidden elements (zero-sized boxes) are never considered visible
+ */
+function isInViewport(image: HTMLImageElement): boolean {
+  const rect = image.getBoundingClientRect();
+
+  if (rect.width === 0 && rect.height === 0) {
+    return false;
+  }
+
+  return (
+    rect.bottom >= 0 &&
+    rect.right >= 0 &&
+    rect.top <= window.innerHeight &&
+    rect.left <= window.innerWidth
+  );
+}
+
+/**
+ * A `loading="lazy"` image that has not loaded and is outside the viewport,
+ * so the browser may not download it until the user scrolls
+ */
+export function isDeferredLazyImage(image: HTMLImageElement): boolean {
+  return image.loading === "lazy" && !image.complete && !isInViewport(image);
+}
+
+/**
+ * An image whose source depends on the viewport (`srcset` or `<picture>`)
+ */
+function isResponsive(image: HTMLImageElement): boolean {
+  return (
+    image.srcset !== "" || image.parentElement instanceof HTMLPictureElement
+  );
+}
+
 /**
  * Automatically scans and tracks all images on the current page
  *
@@ -5,13 +57,30 @@
  * in the DOM. It handles both already-loaded images and images still in the loading process.
  *
  * **How it works:**
- * 1. Scans all images using `document.images`
+ * 1. Scans all images inside the scope root (the whole document by default)
  * 2. For completed images: Immediately determines success/failure using `naturalWidth`
  * 3. For loading images: Sets up event listeners to track completion
- * 4. Updates React state in real-time as images load or fail
+ * 4. Reports each image as `pending`, then again as `loaded` or `failed` once it settles
  *
- * @param setLoadedCount - React state setter function to increment successful image loads
- * @param setFailedCount - React state setter function to increment failed image loads
+ * **Lazy images** (`loading="lazy"`, not loaded yet and outside the viewport):
+ * - `"skip"` (default): Not tracked, so they cannot block completion
+ * - `"visible"`: Tracked once they scroll into view (IntersectionObserver)
+ * - `"eager"`: Switched to `loading="eager"` and tracked like any other image
+ *
+ * **Responsive images** (`srcset` or `<picture>`): When a resize makes the browser pick
+ * another candidate, the image's entry goes back to `pending` with the new `currentSrc`
+ * until that candidate settles.
+ *
+ * **Retries**: With a `retry` policy, a failed or timed-out image is reloaded (optionally
+ * with cache-busting) and reported as `retrying` until an attempt succeeds or the
+ * attempts run out.
+ *
+ * @param onAssetUpdate - Receives every image entry when discovered and when settled
+ * @param options - Optional root container or exact elements to track (defaults to the whole document),
+ *   the timeout in milliseconds (no timeout by default), the lazy-image policy (`"skip"` by default),
+ *   and the retry policy (no retries by default).
+ *   Pass a `signal` to cancel the scan and remove its listeners and timers.
+ *   `filter` skips images for which it returns `false` (e.g. tracking pixels).
  *
  * @returns Object containing the total number of images found
  * @returns returns.totalImages - Total count of `<img>` elements detected on the page
@@ -19,18 +88,19 @@
  * @example
  * ```typescript
  * // Basic usage in a React hook
- * const [loadedCount, setLoadedCount] = useState(0);
- * const [failedCount, setFailedCount] = useState(0);
+ * const [assets, setAssets] = useState<TrackedAsset[]>([]);
  *
- * const { totalImages } = scanImages(setLoadedCount, setFailedCount);
+ * const { totalImages } = scanImages((asset) =>
+ *   setAssets((prev) => [...prev.filter((a) => a.id !== asset.id), asset])
+ * );
  * console.log(`Found ${totalImages} images to track`);
  * ```
  *
  * @example
  * ```typescript
- * // The state setters will be called automatically as images load:
- * // - setLoadedCount(prev => prev + 1) for each successful load
- * // - setFailedCount(prev => prev + 1) for each failed load
+ * // The handler is called twice for every image:
+ * // - { status: "pending", url: "https://…/hero.jpg", startTime, … } when discovered
+ * // - { status: "loaded" | "failed", endTime, … } when it settles
  * ```
  *
  * @since 1.1.0
@@ -38,70 +108,207 @@
  */
 
 export function scanImages(
-  setLoadedCount: React.Dispatch<React.SetStateAction<number>>,
-  setFailedCount: React.Dispatch<React.SetStateAction<number>>
+  onAssetUpdate: AssetUpdateHandler,
+  options: ImageScannerOptions = {}
 ): { totalImages: number } {
-  // Convert HTMLCollection to Array for easier manipulation
-  const images = Array.from(document.images);
-  const totalImages = images.length;
+  // Track the given elements, or discover every image inside the root
+  const {
+    root = document,
+    elements,
+    timeout,
+    lazy = "skip",
+    signal,
+    retry,
+    filter,
+  } = options;
 
-  /**
-   * Create a Promise for each image to track its loading state
-   * Each promise resolves to either "loaded" or "failed" based on the image's final state
-   */
-  const loadImages = images.map(
-    (image) =>
-      new Promise<"loaded" | "failed">((resolve) => {
-        // Check if image has already completed loading
-        if (image.complete) {
-          /**
-           * Smart success detection:
-           * - image.complete = true doesn't guarantee success
-           * - image.naturalWidth > 0 means the image actually loaded successfully
-           * - image.naturalWidth = 0 means the image failed to load (broken/404)
-           */
-          resolve(image.naturalWidth > 0 ? "loaded" : "failed");
-        } else {
-          /**
-           * For images still loading, set up event listeners:
-           * - 'load': Image loaded successfully
-           * - 'error': Image failed to load (404, network error, etc.)
-           * - { once: true }: Automatically remove listeners after first trigger
-           */
-          image.addEventListener("load", () => resolve("loaded"), {
-            once: true,
-          });
-          image.addEventListener("error", () => resolve("failed"), {
-            once: true,
-          });
-        }
-      })
+  // Stop reporting once the scan is cancelled
+  const report = guardAssetUpdates(onAssetUpdate, signal);
+
+  const candidates = (elements ?? collectAssetElements(root).images).filter(
+    (image) => filter?.(image) ?? true
   );
 
   /**
-   * Handle promise resolutions and update React state
-   * Each promise resolves independently as its corresponding image loads/fails
+   * Waits for an image to settle
+   * Resolves to "loaded" or "failed" based on the image's final state, or
+   * "timed-out" when a timeout is configured and the image is stuck
+   *
+   * After a reload the previous (broken) state can still be visible
+   * synchronously, so only the events are trusted.
    */
-  loadImages.forEach((loadImage) => {
-    loadImage.then((result) => {
-      if (result === "loaded") {
+  const waitForImage = (image: HTMLImageElement, reloading = false) => {
+    const loadImage = new Promise<"loaded" | "failed">((resolve) => {
+      // Check if image has already completed loading
+      if (image.complete && !reloading) {
         /**
-         * Use functional state update to safely handle concurrent updates
-         * This prevents race conditions when multiple images load simultaneously
+         * Smart success detection:
+         * - image.complete = true doesn't guarantee success
+         * - image.naturalWidth > 0 means the image actually loaded successfully
+         * - image.naturalWidth = 0 means the image failed to load (broken/404)
          */
-        setLoadedCount((prev) => prev + 1);
+        resolve(image.naturalWidth > 0 ? "loaded" : "failed");
       } else {
-        // Handle failed images (404, network errors, invalid formats, etc.)
-        setFailedCount((prev) => prev + 1);
+        /**
+         * For images still loading, set up event listeners:
+         * - 'load': Image loaded successfully
+         * - 'error': Image failed to load (404, network error, etc.)
+         * - { once: true }: Automatically remove listeners after first trigger
+         */
+        image.addEventListener("load", () => resolve("loaded"), {
+          once: true,
+          signal,
+        });
+        image.addEventListener("error", () => resolve("failed"), {
+          once: true,
+          signal,
+        });
       }
     });
+
+    /**
+     * Optional timeout protection: images wait indefinitely unless a timeout
+     * is configured, in which case a stuck image is reported as "timed-out"
+     */
+    if (timeout === undefined) {
+      return loadImage;
+    }
+
+    const timeoutPromise = waitForTimeout(timeout, signal);
+
+    return Promise.race([loadImage, timeoutPromise]);
+  };
+
+  /**
+   * Tracks one image: reports it as pending, then settled
+   *
+   * The final status is reported together with the candidate the browser picked,
+   * which is only known once `srcset`/`<picture>` selection has happened.
+   * Failed images (404, network errors, invalid formats, etc.) are reported the same way
+   */
+  const trackImage = (image: HTMLImageElement) => {
+    const asset = createTrackedAsset("image", resolveMediaUrl(image), image);
+    report(asset);
+
+    loadWithRetry(
+      asset,
+      (attempt) => {
+        if (attempt > 1) {
+          reloadImage(image, attempt, retry?.cacheBust);
+        }
+        return waitForImage(image, attempt > 1);
+      },
+      report,
+      retry,
+      signal
+    ).then(({ asset: latest, outcome }) => {
+      const settled = settleTrackedAsset(
+        latest,
+        outcome,
+        resolveMediaUrl(image)
+      );
+      report(settled);
+
+      if (isResponsive(image)) {
+        watchCandidate(image, settled);
+      }
+    });
+  };
+
+  /**
+   * Re-tracks a responsive image when a resize makes the browser pick another
+   * `srcset`/`<picture>` candidate, so the new download is not silently ignored
+   *
+   * The entry keeps its id and goes back to `pending` until the new candidate
+   * settles. Watching stops once the image leaves the document.
+   */
+  const watchCandidate = (image: HTMLImageElement, settled: TrackedAsset) => {
+    let current = settled;
+    let restarting = false;
+    let frame = 0;
+
+    const checkCandidate = () => {
+      if (!image.isConnected) {
+        window.removeEventListener("resize", onResize);
+        return;
+      }
+      if (restarting) {
+        return;
+      }
+
+      const url = resolveMediaUrl(image);
+      if (image.complete && url === current.url) {
+        return;
+      }
+
+      restarting = true;
+      const restarted = restartTrackedAsset(current, url);
+      report(restarted);
+
+      waitForImage(image).then((result) => {
+        current = settleTrackedAsset(restarted, result, resolveMediaUrl(image));
+        restarting = false;
+        report(current);
+      });
+    };
+
+    // Candidate selection is updated asynchronously, check on the next frame
+    const onResize = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(checkCandidate);
+    };
+
+    window.addEventListener("resize", onResize, { signal });
+    signal?.addEventListener("abort", () => cancelAnimationFrame(frame), {
+      once: true,
+    });
+  };
+
+  /**
+   * Lazy images below the fold may never load until the user scrolls,
+   * so they are handled according to the lazy-image policy
+   */
+  const images: HTMLImageElement[] = [];
+  let visibilityObserver: IntersectionObserver | undefined;
+
+  candidates.forEach((image) => {
+    if (!isDeferredLazyImage(image)) {
+      images.push(image);
+      return;
+    }
+
+    if (lazy === "eager") {
+      // Force the download now so the image can be waited on
+      image.loading = "eager";
+      images.push(image);
+    } else if (lazy === "visible") {
+      // Start tracking only once the image scrolls into view
+      visibilityObserver ??= new IntersectionObserver((entries) => {
+        entries.forEach((entry) => {
+          if (entry.isIntersecting) {
+            visibilityObserver?.unobserve(entry.target);
+            trackImage(entry.target as HTMLImageElement);
+          }
+        });
+      });
+      visibilityObserver.observe(image);
+    }
+    // "skip": offscreen lazy images are not tracked at all
   });
 
+  // Stop waiting for lazy images to scroll into view once the scan is cancelled
+  signal?.addEventListener("abort", () => visibilityObserver?.disconnect(), {
+    once: true,
+  });
+
+  const totalImages = images.length;
+  images.forEach(trackImage);
+
   // Return immediate scan results
   return {
     /**
-     * Total number of <img> elements found in document.images
-     * This represents the complete scope of images to be tracked
+     * Total number of <img> elements tracked right away
+     * Lazy images tracked later under the "visible" policy are not included
      */
     totalImages,
   };
@@ -0,0 +1,113 @@
+import {
+  AssetManifestEntry,
+  AssetUpdateHandler,
+  BuiltInScanType,
+} from "../types";
+import {
+  PreloadOptions,
+  preloadAudio,
+  preloadFont,
+  preloadImage,
+  preloadVideo,
+} from "./assetPreloader";
+
+/**
+ * Option key (`timeouts`, `retry.types`) matching each manifest entry type
+ */
+const MANIFEST_SCAN_TYPES: Record<AssetManifestEntry["type"], BuiltInScanType> =
+  {
+    image: "images",
+    video: "videos",
+    audio: "audios",
+    font: "fonts",
+  };
+
+/**
+ * Derives a font family name from a font file URL ("/fonts/Brand-Sans.woff2" → "Brand-Sans")
+ */
+function familyFromUrl(url: string): string {
+  const file = url.split(/[?#]/)[0].split("/").pop() ?? url;
+  return file.replace(/\.[^.]+$/, "");
+}
+
+/**
+ * Starts loading a single manifest entry with the element matching its type
+ */
+function preloadEntry(
+  entry: AssetManifestEntry,
+  report: AssetUpdateHandler,
+  options: PreloadOptions
+): Promise<void> {
+  switch (entry.type) {
+    case "image":
+      return preloadImage(entry.url, report, options);
+    case "video":
+      return preloadVideo(entry.url, report, options);
+    case "audio":
+      return preloadAudio(entry.url, report, options);
+    case "font":
+      return preloadFont(entry.family ?? familyFromUrl(entry.url), report, {
+        ...options,
+        src: entry.url,
+      });
+  }
+}
+
+/**
+ * Preloads every entry of an asset manifest
+ *
+ * Backs the `manifest` option of `useAssetLoader`. Each entry is loaded off-DOM
+ * with the element matching its type and tracked by the regular scanner for
+ * that type, so it is detected exactly like an asset rendered on the page:
+ * - **image**: an `Image`
+ * - **video**: a muted `<video>` with `preload="auto"`
+ * - **audio**: an `Audio` with `preload="auto"`
+ * - **font**: a `FontFace` added to `document.fonts`, under `family` (or the file name)
+ *
+ * The entry's `weight` and `group` are copied onto every update of its asset.
+ * Failures are reported through `onAssetUpdate` like any other asset.
+ *
+ * @param entries - Assets to preload
+ * @param onAssetUpdate - Receives every entry when discovered and when settled
+ * @param resolveOptions - Returns the timeout, retry policy and abort signal for a type
+ *
+ * @returns Object containing the number of manifest entries
+ * @returns returns.totalManifest - Count of entries being preloaded
+ *
+ * @example
+ * ```typescript
+ * preloadManifest(
+ *   [
+ *     { url: "/sprites/hero.png", type: "image", group: "critical" },
+ *     { url: "/sfx/jump.mp3", type: "audio" },
+ *     { url: "/fonts/Pixel.woff2", type: "font", family: "Pixel" },
+ *   ],
+ *   reportAsset,
+ *   () => ({ timeout: 10000 })
+ * );
+ * ```
+ *
+ * @since 1.3.0
+ */
+export function preloadManifest(
+  entries: AssetManifestEntry[],
+  onAssetUpdate: AssetUpdateHandler,
+  resolveOptions: (type: BuiltInScanType) => PreloadOptions = () => ({})
+): { totalManifest: number } {
+  entries.forEach((entry) => {
+    const { weight, group } = entry;
+
+    // Tag every update with the entry's weight and group
+    const report: AssetUpdateHandler = (asset) =>
+      onAssetUpdate({ ...asset, weight, group });
+
+    // Outcomes are reported through the asset entries
+    preloadEntry(
+      entry,
+      report,
+      resolveOptions(MANIFEST_SCAN_TYPES[entry.type])
+    ).catch(() => undefined);
+  });
+
+  return { totalManifest: entries.length };
+}
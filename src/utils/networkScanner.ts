@@ -0,0 +1,314 @@
+import {
+  AssetStatus,
+  AssetUpdateHandler,
+  NetworkScannerOptions,
+  RequestPattern,
+  TrackedAsset,
+} from "../types";
+import {
+  createTrackedAsset,
+  guardAssetUpdates,
+  settleTrackedAsset,
+  waitForTimeout,
+} from "./trackedAsset";
+
+/**
+ * Final status of a request, and the size of its response body when readable
+ */
+interface RequestOutcome {
+  status: Exclude<AssetStatus, "pending" | "retrying">;
+  size?: number;
+}
+
+/**
+ * Resolves the URL of a `fetch` input or `XMLHttpRequest.open` argument to an absolute URL
+ */
+function resolveRequestUrl(input: RequestInfo | URL): string {
+  const url = input instanceof Request ? input.url : String(input);
+  try {
+    return new URL(url, document.baseURI).href;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Checks a request URL against a substring, a regular expression or a predicate
+ */
+function matchesPattern(url: string, pattern: RequestPattern): boolean {
+  if (typeof pattern === "string") {
+    return url.includes(pattern);
+  }
+  if (pattern instanceof RegExp) {
+    pattern.lastIndex = 0;
+    return pattern.test(url);
+  }
+  return pattern(url);
+}
+
+/**
+ * Returns a settled copy of a request entry, with its response size when known
+ */
+function settleRequest(
+  asset: TrackedAsset,
+  { status, size }: RequestOutcome
+): TrackedAsset {
+  const settled = settleTrackedAsset(asset, status);
+  return size === undefined ? settled : { ...settled, size };
+}
+
+/**
+ * Reads the body of a fetch response from a clone, leaving the page's copy untouched
+ *
+ * Opaque (`no-cors`) responses count as loaded, but their size cannot be read.
+ */
+function readResponse(response: Response): Promise<RequestOutcome> {
+  if (response.type === "opaque") {
+    return Promise.resolve({ status: "loaded" });
+  }
+
+  return response
+    .clone()
+    .blob()
+    .then(
+      (body): RequestOutcome => ({
+        status: response.ok ? "loaded" : "failed",
+        size: body.size,
+      }),
+      (): RequestOutcome => ({ status: "failed" })
+    );
+}
+
+/**
+ * Reports a request as sent, then settled with its outcome
+ */
+type RequestReporter = (
+  url: string,
+  handle: Request | XMLHttpRequest,
+  outcome: Promise<RequestOutcome>
+) => void;
+
+/**
+ * Replaces `window.fetch` with a wrapper that reports the matching requests
+ *
+ * @returns Function that restores the native `fetch`, unless another wrapper was added since
+ */
+function wrapFetch(
+  shouldTrack: (url: string) => boolean,
+  trackRequest: RequestReporter
+): () => void {
+  const nativeFetch = window.fetch;
+
+  const trackedFetch: typeof fetch = (input, init) => {
+    const url = resolveRequestUrl(input);
+    if (!shouldTrack(url)) {
+      return nativeFetch.call(window, input, init);
+    }
+
+    // fetch() builds this same Request internally, so behavior is unchanged.
+    // Inputs it rejects (a GET with a body, a malformed URL) make the constructor
+    // throw; those go to the native fetch untouched, so the page still gets its
+    // rejected promise instead of an exception
+    let request: Request;
+    try {
+      request = new Request(input, init);
+    } catch {
+      return nativeFetch.call(window, input, init);
+    }
+    const response = nativeFetch.call(window, request);
+
+    trackRequest(
+      url,
+      request,
+      response.then(readResponse, (): RequestOutcome => ({ status: "failed" }))
+    );
+
+    return response;
+  };
+
+  window.fetch = trackedFetch;
+
+  return () => {
+    if (window.fetch === trackedFetch) {
+      window.fetch = nativeFetch;
+    }
+  };
+}
+
+/**
+ * Wraps `XMLHttpRequest.prototype.open` and `send` to report the matching requests
+ *
+ * @returns Function that restores the native methods, unless another wrapper was added since
+ */
+function wrapXhr(
+  shouldTrack: (url: string) => boolean,
+  trackRequest: RequestReporter,
+  signal?: AbortSignal
+): () => void {
+  const { prototype } = XMLHttpRequest;
+  const nativeOpen = prototype.open as (...args: unknown[]) => void;
+  const nativeSend = prototype.send;
+
+  // URL passed to open(), needed when send() decides whether to track
+  const requestUrls = new WeakMap<XMLHttpRequest, string>();
+
+  const trackedOpen = function (this: XMLHttpRequest, ...args: unknown[]) {
+    requestUrls.set(this, resolveRequestUrl(args[1] as string | URL));
+    return nativeOpen.apply(this, args);
+  } as XMLHttpRequest["open"];
+
+  const trackedSend = function (
+    this: XMLHttpRequest,
+    body?: Document | XMLHttpRequestBodyInit | null
+  ) {
+    const url = requestUrls.get(this);
+    if (url === undefined || !shouldTrack(url)) {
+      return nativeSend.call(this, body);
+    }
+
+    const xhr = this;
+    let timedOut = false;
+    xhr.addEventListener(
+      "timeout",
+      () => {
+        timedOut = true;
+      },
+      { once: true, signal }
+    );
+
+    trackRequest(
+      url,
+      xhr,
+      new Promise((resolve) => {
+        xhr.addEventListener(
+          "loadend",
+          (event: ProgressEvent) => {
+            if (timedOut) {
+              resolve({ status: "timed-out" });
+            } else if (xhr.status >= 200 && xhr.status < 300) {
+              resolve({ status: "loaded", size: event.loaded });
+            } else {
+              resolve({ status: "failed" });
+            }
+          },
+          { once: true, signal }
+        );
+      })
+    );
+
+    return nativeSend.call(this, body);
+  };
+
+  prototype.open = trackedOpen;
+  prototype.send = trackedSend;
+
+  return () => {
+    if (prototype.open === trackedOpen) {
+      prototype.open = nativeOpen as XMLHttpRequest["open"];
+    }
+    if (prototype.send === trackedSend) {
+      prototype.send = nativeSend;
+    }
+  };
+}
+
+/**
+ * Tracks the `fetch` and `XMLHttpRequest` calls made by the page
+ *
+ * Data requests (JSON, Lottie animations, GLTF models...) have no element to scan,
+ * so `window.fetch` and the `XMLHttpRequest` prototype are wrapped instead. Each
+ * matching request is reported when it is sent and settled when its response
+ * body has fully arrived:
+ * - **fetch**: Loaded for a 2xx (or opaque) response, failed for other statuses and
+ *   network errors. The body is read from a clone, so the page's own response is
+ *   left untouched
+ * - **XMLHttpRequest**: Loaded for a 2xx status, timed out on the request's own
+ *   `timeout`, failed otherwise. The size is the number of bytes received
+ *
+ * Only requests sent after this call are seen. The hook starts tracking in a layout
+ * effect, which React runs before any passive effect, so requests that child
+ * components send from `useEffect` on mount are caught.
+ * Requests whose body never ends (streams, server-sent events) never settle
+ * without a `timeout`, so exclude them.
+ *
+ * @param onAssetUpdate - Receives every request when sent and when settled
+ * @param options - `include`/`exclude` URL patterns (matched against absolute URLs),
+ *   an optional timeout in milliseconds, and a `signal` that unwraps everything
+ *   when aborted
+ *
+ * @returns Function that unwraps `fetch` and `XMLHttpRequest` and stops tracking
+ *
+ * @example
+ * ```typescript
+ * const unwrap = trackRequests(reportAsset, {
+ *   include: ["/api/", /\.(json|glb)$/],
+ *   exclude: ["/analytics"],
+ *   timeout: 15000,
+ * });
+ *
+ * // Later, e.g. once the page is ready
+ * unwrap();
+ * ```
+ *
+ * @since 1.3.0
+ */
+export function trackRequests(
+  onAssetUpdate: AssetUpdateHandler,
+  options: NetworkScannerOptions = {}
+): () => void {
+  const { include, exclude = [], timeout, signal } = options;
+
+  if (signal?.aborted) {
+    return () => undefined;
+  }
+
+  // Stop reporting once the scan is cancelled
+  const report = guardAssetUpdates(onAssetUpdate, signal);
+
+  // Requests sent after unwrapping go straight through, even when another
+  // library wrapped fetch on top of this one and it could not be restored
+  let active = true;
+
+  const shouldTrack = (url: string) =>
+    active &&
+    (include === undefined ||
+      include.some((pattern) => matchesPattern(url, pattern))) &&
+    !exclude.some((pattern) => matchesPattern(url, pattern));
+
+  const trackRequest: RequestReporter = (url, handle, outcome) => {
+    const asset = createTrackedAsset("request", url, handle);
+    report(asset);
+
+    // Whichever comes first: the outcome or the timeout
+    const timedOut =
+      timeout === undefined
+        ? []
+        : [
+            waitForTimeout(timeout, signal).then(
+              (status): RequestOutcome => ({ status })
+            ),
+          ];
+
+    Promise.race([outcome, ...timedOut]).then((result) =>
+      report(settleRequest(asset, result))
+    );
+  };
+
+  const unwrappers: Array<() => void> = [];
+  if (typeof window.fetch === "function") {
+    unwrappers.push(wrapFetch(shouldTrack, trackRequest));
+  }
+  if (typeof XMLHttpRequest === "function") {
+    unwrappers.push(wrapXhr(shouldTrack, trackRequest, signal));
+  }
+
+  const unwrap = () => {
+    active = false;
+    unwrappers.forEach((restore) => restore());
+    unwrappers.length = 0;
+  };
+
+  signal?.addEventListener("abort", unwrap, { once: true });
+
+  return unwrap;
+}
@@ -0,0 +1,197 @@
+import { AssetUpdateHandler, RetryOptions, TrackedAsset } from "../types";
+import { waitForTimeout } from "./trackedAsset";
+
+/** Asset types retried when `retry.types` is not set */
+export const DEFAULT_RETRY_TYPES = ["images", "videos", "audios", "backgrounds"];
+
+/** Attempts per asset when `retry.attempts` is not set, including the first */
+const DEFAULT_ATTEMPTS = 3;
+
+/** Base wait in milliseconds when `retry.delay` is not set */
+const DEFAULT_DELAY = 500;
+
+/**
+ * Elements whose source is being reloaded by a retry
+ *
+ * Lets the live observer tell a retry apart from a real source change.
+ */
+const retryingElements = new WeakSet<Element>();
+
+/**
+ * Final outcome of a single loading attempt
+ */
+export type AttemptOutcome = "loaded" | "failed" | "timed-out";
+
+/**
+ * Whether an element's `src`/`srcset` is currently being rewritten by a retry
+ *
+ * @since 1.3.0
+ */
+export function isRetrying(element: Element): boolean {
+  return retryingElements.has(element);
+}
+
+/**
+ * Milliseconds to wait before a retry
+ *
+ * @param retry - The retry policy
+ * @param retryNumber - 1 for the first retry, 2 for the second, ...
+ */
+function getRetryDelay(retry: RetryOptions, retryNumber: number): number {
+  const { backoff = "exponential", delay = DEFAULT_DELAY } = retry;
+
+  if (typeof backoff === "function") {
+    return backoff(retryNumber);
+  }
+  if (backoff === "linear") {
+    return delay * retryNumber;
+  }
+  if (backoff === "exponential") {
+    return delay * 2 ** (retryNumber - 1);
+  }
+  return delay;
+}
+
+/**
+ * Adds (or updates) the `retry` query parameter of a URL
+ *
+ * Data and blob URLs are returned unchanged.
+ *
+ * @since 1.3.0
+ */
+export function cacheBustUrl(url: string, attempt: number): string {
+  if (!url || url.startsWith("data:") || url.startsWith("blob:")) {
+    return url;
+  }
+
+  const busted = new URL(url, document.baseURI);
+  busted.searchParams.set("retry", String(attempt));
+  return busted.href;
+}
+
+/**
+ * Applies `cacheBustUrl` to every candidate of a `srcset` attribute
+ */
+function cacheBustSrcset(srcset: string, attempt: number): string {
+  return srcset
+    .split(",")
+    .map((candidate) => {
+      const [url, ...descriptors] = candidate.trim().split(/\s+/);
+      return [cacheBustUrl(url, attempt), ...descriptors].join(" ");
+    })
+    .join(", ");
+}
+
+/**
+ * Restarts the download of an `<img>`
+ *
+ * Re-assigning `src`/`srcset` makes the browser fetch the image again; with
+ * cache-busting, the URLs get a fresh `retry` parameter.
+ *
+ * @since 1.3.0
+ */
+export function reloadImage(
+  image: HTMLImageElement,
+  attempt: number,
+  cacheBust = false
+): void {
+  if (image.srcset) {
+    image.srcset = cacheBust
+      ? cacheBustSrcset(image.srcset, attempt)
+      : image.srcset;
+  }
+  if (image.hasAttribute("src")) {
+    image.src = cacheBust ? cacheBustUrl(image.src, attempt) : image.src;
+  }
+}
+
+/**
+ * Restarts the download of a `<video>` or `<audio>` element
+ *
+ * With cache-busting, the `src` attribute (or every `<source>`) gets a fresh
+ * `retry` parameter before the element is reloaded.
+ *
+ * @since 1.3.0
+ */
+export function reloadMedia(
+  media: HTMLMediaElement,
+  attempt: number,
+  cacheBust = false
+): void {
+  if (cacheBust) {
+    if (media.hasAttribute("src")) {
+      media.src = cacheBustUrl(media.src, attempt);
+    } else {
+      media.querySelectorAll("source[src]").forEach((source) => {
+        (source as HTMLSourceElement).src = cacheBustUrl(
+          (source as HTMLSourceElement).src,
+          attempt
+        );
+      });
+    }
+  }
+
+  media.load();
+}
+
+/**
+ * Runs loading attempts until one succeeds or the retry policy gives up
+ *
+ * Between attempts the asset is reported as `"retrying"` with its `retries`
+ * count, then the policy's backoff delay elapses before `load` runs again.
+ * Without a policy, `load` runs exactly once.
+ *
+ * @param asset - The pending entry
+ * @param load - Starts attempt `n` (1-based) and resolves to its outcome;
+ *   from the second attempt on, it must restart the download itself
+ * @param report - Receives the `"retrying"` updates
+ * @param retry - Retry policy, or `undefined` to never retry
+ * @param signal - Cancels the backoff timers
+ *
+ * @returns The latest entry (to settle) and the outcome of the last attempt
+ *
+ * @since 1.3.0
+ */
+export function loadWithRetry(
+  asset: TrackedAsset,
+  load: (attempt: number) => Promise<AttemptOutcome>,
+  report: AssetUpdateHandler,
+  retry?: RetryOptions,
+  signal?: AbortSignal
+): Promise<{ asset: TrackedAsset; outcome: AttemptOutcome }> {
+  const maxAttempts = retry
+    ? Math.max(1, retry.attempts ?? DEFAULT_ATTEMPTS)
+    : 1;
+  const element = asset.element instanceof Element ? asset.element : null;
+
+  const attemptLoad = (
+    attempt: number,
+    current: TrackedAsset
+  ): Promise<{ asset: TrackedAsset; outcome: AttemptOutcome }> =>
+    load(attempt).then((outcome) => {
+      if (outcome === "loaded" || !retry || attempt >= maxAttempts) {
+        if (element) {
+          retryingElements.delete(element);
+        }
+        return { asset: current, outcome };
+      }
+
+      const retrying: TrackedAsset = {
+        ...current,
+        status: "retrying",
+        retries: attempt,
+      };
+      report(retrying);
+
+      if (element) {
+        retryingElements.add(element);
+      }
+
+      // The backoff timer never fires once the scan is cancelled
+      return waitForTimeout(getRetryDelay(retry, attempt), signal).then(() =>
+        attemptLoad(attempt + 1, retrying)
+      );
+    });
+
+  return attemptLoad(1, asset);
+}
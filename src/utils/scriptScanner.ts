@@ -0,0 +1,277 @@
+import { AssetUpdateHandler, ScannerOptions, TrackedAsset } from "../types";
+import {
+  createTrackedAsset,
+  DEFAULT_TIMEOUT,
+  guardAssetUpdates,
+  settleTrackedAsset,
+  waitForTimeout,
+} from "./trackedAsset";
+
+/**
+ * Elements that download JavaScript
+ */
+type ScriptElement = HTMLScriptElement | HTMLLinkElement;
+
+/** External scripts and module preloads */
+const SCRIPT_SELECTOR = 'script[src], link[rel~="modulepreload"][href]';
+
+/** Initiators of the resource entries that can be script chunks (not fetch/XHR) */
+const CHUNK_INITIATORS = ["script", "link", "other"];
+
+/**
+ * Returns the absolute URL a script element downloads
+ */
+function getScriptUrl(element: ScriptElement): string {
+  return element instanceof HTMLScriptElement ? element.src : element.href;
+}
+
+/**
+ * Whether a resource timing entry is a JavaScript file loaded without an element,
+ * e.g. a chunk requested by `import()` or a static import of a module
+ */
+function isChunkEntry(entry: PerformanceResourceTiming): boolean {
+  if (!CHUNK_INITIATORS.includes(entry.initiatorType)) {
+    return false;
+  }
+
+  try {
+    return /\.m?js$/.test(new URL(entry.name).pathname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Reads the outcome of a finished download from its resource timing entry
+ *
+ * `responseStatus` is not available in every browser, nor for cross-origin
+ * requests; without it the download counts as loaded.
+ */
+function getEntryStatus(entry: PerformanceResourceTiming): "loaded" | "failed" {
+  const { responseStatus } = entry as PerformanceResourceTiming & {
+    responseStatus?: number;
+  };
+  return responseStatus !== undefined && responseStatus >= 400
+    ? "failed"
+    : "loaded";
+}
+
+/**
+ * Returns the latest resource timing entry of a URL, if its download has finished
+ */
+function findResourceEntry(url: string): PerformanceResourceTiming | undefined {
+  if (typeof performance.getEntriesByName !== "function") {
+    return undefined;
+  }
+
+  const entries = performance.getEntriesByName(
+    url,
+    "resource"
+  ) as PerformanceResourceTiming[];
+  return entries[entries.length - 1];
+}
+
+/**
+ * Whether a script found by the initial scan has necessarily run already
+ *
+ * Classic scripts without `async` or `defer` block the parser, so they have run
+ * before anything else gets to scan the page.
+ */
+function hasBlockedParser(element: ScriptElement): boolean {
+  return (
+    element instanceof HTMLScriptElement &&
+    !element.async &&
+    !element.defer &&
+    element.type !== "module"
+  );
+}
+
+/**
+ * Reports a script element and settles it from its resource timing entry,
+ * or from its `load`/`error` events when it is still downloading
+ */
+function trackScriptElement(
+  element: ScriptElement,
+  report: AssetUpdateHandler,
+  {
+    isInitialScan,
+    timeout,
+    signal,
+  }: { isInitialScan: boolean; timeout: number; signal?: AbortSignal }
+): void {
+  const asset = createTrackedAsset("script", getScriptUrl(element), element);
+  report(asset);
+
+  // A finished download has a resource timing entry
+  const entry = findResourceEntry(asset.url);
+  if (entry) {
+    report(settleTrackedAsset(asset, getEntryStatus(entry)));
+    return;
+  }
+
+  if (isInitialScan && hasBlockedParser(element)) {
+    report(settleTrackedAsset(asset, "loaded"));
+    return;
+  }
+
+  const loadPromise = new Promise<"loaded" | "failed">((resolve) => {
+    element.addEventListener("load", () => resolve("loaded"), {
+      once: true,
+      signal,
+    });
+    element.addEventListener("error", () => resolve("failed"), {
+      once: true,
+      signal,
+    });
+  });
+
+  Promise.race([loadPromise, waitForTimeout(timeout, signal)]).then(
+    (result) => {
+      report(settleTrackedAsset(asset, result));
+    }
+  );
+}
+
+/**
+ * Reports a chunk that was downloaded without an element, already settled
+ *
+ * The entry's own timestamps are kept, so durations reflect the actual download.
+ */
+function reportChunk(
+  entry: PerformanceResourceTiming,
+  report: AssetUpdateHandler
+): void {
+  const asset: TrackedAsset = {
+    ...createTrackedAsset("script", entry.name, entry),
+    startTime: entry.startTime,
+  };
+  report(asset);
+  report({
+    ...settleTrackedAsset(asset, getEntryStatus(entry)),
+    endTime: entry.responseEnd,
+  });
+}
+
+/**
+ * Tracks the JavaScript the page downloads: script tags, module preloads and
+ * code-split chunks
+ *
+ * Route-level code splitting means the first meaningful screen can depend on
+ * chunks no other scanner sees. This scanner combines two sources:
+ * - **Elements**: `<script src>` and `<link rel="modulepreload">` inside the root,
+ *   found by the initial scan and added later. Finished downloads settle from their
+ *   `PerformanceResourceTiming` entry, the others from their `load`/`error` events
+ * - **Resource entries**: a `PerformanceObserver` reports `.js`/`.mjs` files fetched
+ *   without an element, such as `import()` chunks and static module imports
+ *
+ * **Script States Handled:**
+ * - Download finished: a resource timing entry exists → loaded, or failed for an
+ *   HTTP error status when the browser exposes it
+ * - Parser-blocking classic script found by the initial scan → loaded (it already ran)
+ * - Still downloading → wait for `load`/`error` with timeout protection (7 seconds by default)
+ *
+ * Chunks loaded by `import()` have no element, so they only appear once their
+ * download finishes; they count towards the totals but cannot hold completion back
+ * while in flight. Resource entries are only watched when the root is the whole
+ * document. Watching continues until the signal aborts.
+ *
+ * @param onAssetUpdate - Receives every script when discovered and when settled
+ * @param options - Optional root container or exact elements to track (no watching
+ *   then), the timeout in milliseconds (defaults to 7000), an element `filter`, and
+ *   a `signal` that stops watching and removes every listener and timer
+ *
+ * @returns Object containing the number of scripts found by the initial scan
+ *
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * const { totalScripts } = scanScripts(reportAsset, { signal: controller.signal });
+ *
+ * // Later, e.g. when the loader unmounts
+ * controller.abort();
+ * ```
+ *
+ * @since 1.3.0
+ * @see {@link https://developer.mozilla.org/en-US/docs/Web/API/PerformanceResourceTiming} PerformanceResourceTiming Documentation
+ */
+export function scanScripts(
+  onAssetUpdate: AssetUpdateHandler,
+  options: ScannerOptions<ScriptElement> = {}
+): { totalScripts: number } {
+  const {
+    root = document,
+    elements,
+    timeout = DEFAULT_TIMEOUT,
+    filter,
+    signal,
+  } = options;
+
+  // Stop reporting once the scan is cancelled
+  const report = guardAssetUpdates(onAssetUpdate, signal);
+
+  // Each URL is tracked once, whichever source sees it first
+  const seenUrls = new Set<string>();
+
+  const track = (element: ScriptElement, isInitialScan: boolean) => {
+    const url = getScriptUrl(element);
+    if (!url || seenUrls.has(url) || !(filter?.(element) ?? true)) {
+      return false;
+    }
+
+    seenUrls.add(url);
+    trackScriptElement(element, report, { isInitialScan, timeout, signal });
+    return true;
+  };
+
+  const initialElements =
+    elements ??
+    Array.from(root.querySelectorAll<ScriptElement>(SCRIPT_SELECTOR));
+  const totalScripts = initialElements.filter((element) =>
+    track(element, true)
+  ).length;
+
+  if (elements || signal?.aborted) {
+    return { totalScripts };
+  }
+
+  // Script tags and module preloads added later, e.g. by a bundler's chunk loader
+  const mutationObserver = new MutationObserver((records) => {
+    records.forEach((record) => {
+      record.addedNodes.forEach((node) => {
+        if (!(node instanceof Element)) {
+          return;
+        }
+
+        const added = node.matches(SCRIPT_SELECTOR) ? [node] : [];
+        added
+          .concat(Array.from(node.querySelectorAll(SCRIPT_SELECTOR)))
+          .forEach((element) => track(element as ScriptElement, false));
+      });
+    });
+  });
+  mutationObserver.observe(
+    root === document ? document.documentElement : (root as Node),
+    { childList: true, subtree: true }
+  );
+  signal?.addEventListener("abort", () => mutationObserver.disconnect(), {
+    once: true,
+  });
+
+  // Chunks fetched without an element (import(), static module imports)
+  if (root === document && typeof PerformanceObserver === "function") {
+    const performanceObserver = new PerformanceObserver((list) => {
+      (list.getEntries() as PerformanceResourceTiming[]).forEach((entry) => {
+        if (isChunkEntry(entry) && !seenUrls.has(entry.name)) {
+          seenUrls.add(entry.name);
+          reportChunk(entry, report);
+        }
+      });
+    });
+    performanceObserver.observe({ type: "resource" });
+    signal?.addEventListener("abort", () => performanceObserver.disconnect(), {
+      once: true,
+    });
+  }
+
+  return { totalScripts };
+}
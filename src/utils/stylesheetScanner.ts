@@ -0,0 +1,244 @@
+import { AssetUpdateHandler, ScannerOptions, TrackedAsset } from "../types";
+import {
+  createTrackedAsset,
+  DEFAULT_TIMEOUT,
+  guardAssetUpdates,
+  settleTrackedAsset,
+  waitForTimeout,
+} from "./trackedAsset";
+
+/**
+ * Returns the rules of a stylesheet, or `null` when they cannot be read
+ * (cross-origin sheets without CORS throw a SecurityError)
+ */
+function readRules(sheet: CSSStyleSheet): CSSRuleList | null {
+  try {
+    return sheet.cssRules;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Follows the `@import` rules of a readable stylesheet, depth first
+ *
+ * Imported sheets finish loading before their parent fires `load`, so their
+ * status is final by the time this runs. An import whose sheet is missing is
+ * reported as failed. Cross-origin sheets are not followed since their rules
+ * cannot be read. Nested imports are reported before the import that holds them
+ * settles, so the pending count never drops to zero in between.
+ */
+function reportImports(
+  sheet: CSSStyleSheet,
+  owner: Element,
+  seen: Set<string>,
+  onAssetUpdate: AssetUpdateHandler
+): number {
+  const rules = readRules(sheet);
+  if (!rules) {
+    return 0;
+  }
+
+  let total = 0;
+
+  Array.from(rules).forEach((rule) => {
+    if (!(rule instanceof CSSImportRule)) {
+      return;
+    }
+
+    const url = new URL(rule.href, sheet.href ?? document.baseURI).href;
+    if (seen.has(url)) {
+      return;
+    }
+    seen.add(url);
+    total++;
+
+    const asset = createTrackedAsset("stylesheet", url, owner);
+    onAssetUpdate(asset);
+
+    // Accessing an imported sheet can also throw for cross-origin imports
+    let imported: CSSStyleSheet | null = null;
+    try {
+      imported = rule.styleSheet;
+    } catch {
+      imported = null;
+    }
+
+    if (imported) {
+      total += reportImports(imported, owner, seen, onAssetUpdate);
+    }
+
+    onAssetUpdate(settleTrackedAsset(asset, imported ? "loaded" : "failed"));
+  });
+
+  return total;
+}
+
+/**
+ * Whether the download of a URL has finished with an HTTP error, according to
+ * resource timing
+ *
+ * `responseStatus` is not available in every browser, nor for cross-origin
+ * requests; without it the download does not count as failed.
+ */
+function hasFailedDownload(url: string): boolean {
+  if (typeof performance.getEntriesByName !== "function") {
+    return false;
+  }
+
+  const entries = performance.getEntriesByName(
+    url,
+    "resource"
+  ) as PerformanceResourceTiming[];
+  const { responseStatus } = (entries[entries.length - 1] ?? {}) as {
+    responseStatus?: number;
+  };
+  return responseStatus !== undefined && responseStatus >= 400;
+}
+
+/**
+ * Automatically detects and tracks stylesheet loading
+ *
+ * Unstyled content flashing before CSS arrives is exactly what a splash screen is
+ * meant to hide. This scanner tracks every `<link rel="stylesheet">` in the scope,
+ * plus the `@import` chains of readable stylesheets.
+ *
+ * **How it works:**
+ * 1. **Loaded sheets**: A `<link>` whose `sheet` is already available (it is listed in
+ *    `document.styleSheets`) is reported as loaded right away
+ * 2. **Pending sheets**: Other links are tracked through their `load`/`error` events
+ * 3. **Failed before the scan**: A link without a sheet whose download has already
+ *    ended with an HTTP error (a `PerformanceResourceTiming` entry with a
+ *    `responseStatus` of 400 or more) is reported as failed, since its events have
+ *    already fired. Other links, such as route CSS chunks rendered after the
+ *    document loaded or sheets downloaded but not parsed yet, keep waiting for
+ *    their events
+ * 4. **Imports**: After a sheet loads, its same-origin `@import` rules are followed
+ *    recursively and reported as separate assets
+ * 5. **Inline styles**: When scanning the whole document, `@import` rules inside
+ *    `<style>` elements are followed as well
+ *
+ * Each stylesheet URL is counted once. Disabled links are skipped.
+ *
+ * @param onAssetUpdate - Receives every stylesheet entry when discovered and when settled
+ * @param options - Optional root container or exact `<link>` elements to track (defaults to
+ *   the whole document), and the timeout in milliseconds (defaults to 7000).
+ *   Pass a `signal` to cancel the scan and remove its listeners and timers.
+ *   `filter` skips `<link>` elements for which it returns `false`.
+ *
+ * @returns Object containing the number of stylesheets known at scan time
+ * @returns returns.totalStylesheets - Count of `<link>` stylesheets plus imports already readable
+ *
+ * @example
+ * ```typescript
+ * scanStylesheets((asset) => {
+ *   if (asset.status === "failed") {
+ *     console.warn(`Stylesheet ${asset.url} failed, page may render unstyled`);
+ *   }
+ * });
+ * ```
+ *
+ * @since 1.2.0
+ * @see {@link https://developer.mozilla.org/en-US/docs/Web/API/Document/styleSheets} document.styleSheets
+ * @see {@link https://developer.mozilla.org/en-US/docs/Web/API/CSSImportRule} CSSImportRule
+ */
+export function scanStylesheets(
+  onAssetUpdate: AssetUpdateHandler,
+  options: ScannerOptions<HTMLLinkElement> = {}
+): { totalStylesheets: number } {
+  const {
+    root = document,
+    elements,
+    timeout = DEFAULT_TIMEOUT,
+    signal,
+    filter,
+  } = options;
+
+  // Stop reporting once the scan is cancelled
+  const report = guardAssetUpdates(onAssetUpdate, signal);
+
+  const links =
+    elements ??
+    Array.from(
+      root.querySelectorAll<HTMLLinkElement>('link[rel~="stylesheet"]')
+    ).filter(
+      (link) => !link.disabled && link.href && (filter?.(link) ?? true)
+    );
+
+  // Stylesheet URLs already counted, shared by links and imports
+  const seen = new Set<string>();
+  let totalStylesheets = 0;
+
+  /**
+   * Follows a loaded link's imports, then reports its final status
+   *
+   * The imports go first so that completion is not reached, and then lost,
+   * when the link is the last pending asset.
+   */
+  const settle = (
+    link: HTMLLinkElement,
+    asset: TrackedAsset,
+    status: "loaded" | "failed" | "timed-out"
+  ) => {
+    if (status === "loaded" && link.sheet) {
+      reportImports(link.sheet, link, seen, report);
+    }
+    report(settleTrackedAsset(asset, status));
+  };
+
+  links.forEach((link) => {
+    if (seen.has(link.href)) {
+      return;
+    }
+    seen.add(link.href);
+    totalStylesheets++;
+
+    const asset = createTrackedAsset("stylesheet", link.href, link);
+    report(asset);
+
+    // Fast path: the sheet is already parsed and available
+    if (link.sheet) {
+      settle(link, asset, "loaded");
+      return;
+    }
+
+    // A download that ended with an HTTP error already fired its events
+    if (hasFailedDownload(link.href)) {
+      settle(link, asset, "failed");
+      return;
+    }
+
+    const loadStylesheet = new Promise<"loaded" | "failed">((resolve) => {
+      link.addEventListener("load", () => resolve("loaded"), {
+        once: true,
+        signal,
+      });
+      link.addEventListener("error", () => resolve("failed"), {
+        once: true,
+        signal,
+      });
+    });
+
+    // Timeout protection, in case the events fired before the scan without a
+    // resource timing entry to tell (e.g. a full timing buffer)
+    Promise.race([loadStylesheet, waitForTimeout(timeout, signal)]).then(
+      (outcome) => settle(link, asset, outcome)
+    );
+  });
+
+  // Inline <style> elements can pull in stylesheets through @import too
+  if (!elements && root === document) {
+    Array.from(document.styleSheets).forEach((sheet) => {
+      if (sheet.ownerNode instanceof HTMLStyleElement) {
+        totalStylesheets += reportImports(
+          sheet,
+          sheet.ownerNode,
+          seen,
+          report
+        );
+      }
+    });
+  }
+
+  return { totalStylesheets };
+}
@@ -0,0 +1,155 @@
+import {
+  AssetReport,
+  AssetTiming,
+  LoadTimingReport,
+  TrackedAsset,
+} from "../types";
+
+/** Number of assets listed as the slowest by default */
+const DEFAULT_SLOWEST_COUNT = 5;
+
+/**
+ * Returns the resource timing entry of an asset's download, if any
+ *
+ * Script chunks loaded without an element carry their entry; other assets are
+ * looked up by URL, latest entry first.
+ */
+function findResourceTiming(
+  asset: TrackedAsset
+): PerformanceResourceTiming | undefined {
+  if (
+    typeof PerformanceResourceTiming !== "undefined" &&
+    asset.element instanceof PerformanceResourceTiming
+  ) {
+    return asset.element;
+  }
+  if (!asset.url || typeof performance.getEntriesByName !== "function") {
+    return undefined;
+  }
+
+  const entries = performance.getEntriesByName(
+    asset.url,
+    "resource"
+  ) as PerformanceResourceTiming[];
+  return entries[entries.length - 1];
+}
+
+/**
+ * Builds the serializable timing of a settled asset
+ *
+ * Cross-origin entries without `Timing-Allow-Origin` report zeros; those fields
+ * are left out rather than reported as instant or empty.
+ */
+function createAssetTiming(
+  asset: TrackedAsset,
+  trackingStart: number
+): AssetTiming {
+  const timing: AssetTiming = {
+    type: asset.type,
+    url: asset.url,
+    status: asset.status,
+    start: asset.startTime - trackingStart,
+    duration: (asset.endTime ?? asset.startTime) - asset.startTime,
+  };
+  if (asset.group !== undefined) {
+    timing.group = asset.group;
+  }
+  if (asset.retries !== undefined) {
+    timing.retries = asset.retries;
+  }
+
+  const entry = findResourceTiming(asset);
+  if (!entry) {
+    return timing;
+  }
+
+  if (entry.duration > 0) {
+    timing.duration = entry.duration;
+  }
+  if (entry.responseStart > 0) {
+    timing.ttfb = entry.responseStart - entry.startTime;
+  }
+  if (entry.transferSize > 0) {
+    timing.transferSize = entry.transferSize;
+    timing.cacheHit = false;
+  } else if (entry.decodedBodySize > 0) {
+    // A readable body that crossed no network came from the cache
+    timing.transferSize = 0;
+    timing.cacheHit = true;
+  }
+
+  return timing;
+}
+
+/**
+ * Builds the timing report passed to `onComplete`
+ *
+ * Backs the `onComplete` option of `useAssetLoader`. The report only holds plain
+ * values, so it can be serialized with `JSON.stringify` and sent as is:
+ * - **Wall time**: from the start of tracking until the last asset settled
+ * - **Per type**: when the last asset of each type settled
+ * - **Per asset**: start, duration, and TTFB, transfer size and cache hit from
+ *   `PerformanceResourceTiming` when the browser exposes them
+ * - **Slowest**: the longest loads, slowest first
+ *
+ * @param report - Completion report of the tracker
+ * @param trackingStart - When tracking started, in milliseconds from `performance.timeOrigin`
+ * @param slowestCount - Number of assets listed in `slowest` (defaults to 5)
+ *
+ * @returns The timing report
+ *
+ * @example
+ * ```typescript
+ * const startTime = performance.now();
+ * tracker.start();
+ *
+ * const timing = createLoadTimingReport(await tracker.whenComplete(), startTime);
+ * console.table(timing.slowest);
+ * ```
+ *
+ * @since 1.3.0
+ */
+export function createLoadTimingReport(
+  report: AssetReport,
+  trackingStart: number,
+  slowestCount: number = DEFAULT_SLOWEST_COUNT
+): LoadTimingReport {
+  const {
+    totalCount,
+    loadedCount,
+    failedCount,
+    timedOutCount,
+    retryingCount,
+    duration,
+  } = report;
+
+  const assets = report.assets.map((asset) =>
+    createAssetTiming(asset, trackingStart)
+  );
+
+  const typeDurations: Record<string, number> = {};
+  report.assets.forEach((asset) => {
+    const settledAt = (asset.endTime ?? asset.startTime) - trackingStart;
+    typeDurations[asset.type] = Math.max(
+      typeDurations[asset.type] ?? 0,
+      settledAt
+    );
+  });
+
+  const slowest = [...assets]
+    .sort((a, b) => b.duration - a.duration)
+    .slice(0, slowestCount);
+
+  return {
+    totalCount,
+    loadedCount,
+    failedCount,
+    timedOutCount,
+    retryingCount,
+    startTime: trackingStart,
+    duration,
+    typeDurations,
+    assets,
+    slowest,
+  };
+}
@@ -0,0 +1,154 @@
+import {
+  AssetStatus,
+  AssetType,
+  AssetUpdateHandler,
+  TrackedAsset,
+} from "../types";
+
+/**
+ * Default timeout in milliseconds for videos, audios, fonts, scripts and stylesheets
+ * Images have no timeout unless one is configured
+ */
+export const DEFAULT_TIMEOUT = 7000;
+
+/** Source of unique ids for tracked assets */
+let nextAssetId = 1;
+
+/**
+ * Creates the `pending` entry for an asset that has just been discovered
+ *
+ * @param type - Kind of asset
+ * @param url - Resolved location of the asset (may still be empty for media elements)
+ * @param element - The element or `FontFace` being tracked
+ *
+ * @returns A new tracked asset with a unique id and the current time as `startTime`
+ *
+ * @since 1.2.0
+ */
+export function createTrackedAsset(
+  type: AssetType,
+  url: string,
+  element: TrackedAsset["element"]
+): TrackedAsset {
+  return {
+    id: nextAssetId++,
+    type,
+    url,
+    status: "pending",
+    startTime: performance.now(),
+    element,
+  };
+}
+
+/**
+ * Returns a settled copy of a tracked asset
+ *
+ * Entries are never mutated, so consumers holding React state can compare
+ * them by reference.
+ *
+ * @param asset - The pending entry
+ * @param status - Final status of the asset
+ * @param url - Updated location, e.g. the `currentSrc` chosen by the browser
+ *
+ * @since 1.2.0
+ */
+export function settleTrackedAsset(
+  asset: TrackedAsset,
+  status: Exclude<AssetStatus, "pending" | "retrying">,
+  url: string = asset.url
+): TrackedAsset {
+  return { ...asset, status, url, endTime: performance.now() };
+}
+
+/**
+ * Whether an asset has reached its final status
+ * (`pending` and `retrying` assets are still loading)
+ *
+ * @since 1.3.0
+ */
+export function isSettled(asset: TrackedAsset): boolean {
+  return asset.status !== "pending" && asset.status !== "retrying";
+}
+
+/**
+ * Returns a pending copy of a settled asset that is loading again
+ *
+ * The id is kept so consumers update the existing entry instead of adding one,
+ * e.g. when a responsive image switches to another candidate.
+ *
+ * @param asset - The settled entry
+ * @param url - Location of the new download
+ *
+ * @since 1.2.0
+ */
+export function restartTrackedAsset(
+  asset: TrackedAsset,
+  url: string
+): TrackedAsset {
+  return {
+    ...asset,
+    status: "pending",
+    url,
+    startTime: performance.now(),
+    endTime: undefined,
+  };
+}
+
+/**
+ * Resolves the URL a media element is actually loading
+ *
+ * `currentSrc` reflects the candidate picked from `srcset`/`<source>`, and falls
+ * back to the `src` attribute while no candidate has been selected yet.
+ */
+export function resolveMediaUrl(
+  element: HTMLImageElement | HTMLMediaElement
+): string {
+  return element.currentSrc || element.src;
+}
+
+/**
+ * Wraps an update handler so nothing is reported once the signal aborts
+ *
+ * Guarantees that a torn-down scan (e.g. after the component unmounted) never
+ * calls back into state setters, even for promises that settle later.
+ *
+ * @since 1.2.0
+ */
+export function guardAssetUpdates(
+  onAssetUpdate: AssetUpdateHandler,
+  signal?: AbortSignal
+): AssetUpdateHandler {
+  return (asset) => {
+    if (!signal?.aborted) {
+      onAssetUpdate(asset);
+    }
+  };
+}
+
+/**
+ * Resolves to `"timed-out"` after the given delay
+ *
+ * The timer is cleared when the signal aborts, so pending timeouts do not keep
+ * running after the scan they belong to is torn down. In that case the promise
+ * never resolves.
+ *
+ * @param timeout - Delay in milliseconds
+ * @param signal - Optional signal that cancels the timer
+ *
+ * @since 1.2.0
+ */
+export function waitForTimeout(
+  timeout: number,
+  signal?: AbortSignal
+): Promise<"timed-out"> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      return;
+    }
+
+    const timer = setTimeout(() => resolve("timed-out"), timeout);
+    signal?.addEventListener("abort", () => clearTimeout(timer), {
+      once: true,
+    });
+  });
+}
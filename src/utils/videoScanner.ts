@@ -1,4 +1,14 @@
-import { Dispatch, SetStateAction } from "react";
+import { AssetUpdateHandler, ScannerOptions } from "../types";
+import { collectAssetElements } from "./assetObserver";
+import {
+  createTrackedAsset,
+  DEFAULT_TIMEOUT,
+  guardAssetUpdates,
+  resolveMediaUrl,
+  settleTrackedAsset,
+  waitForTimeout,
+} from "./trackedAsset";
+import { loadWithRetry, reloadMedia } from "./retryPolicy";
 
 /**
  * Automatically detects and tracks loading progress of video elements on the page
@@ -9,9 +19,9 @@ import { Dispatch, SetStateAction } from "react";
  * video sources, making it perfect for asset-heavy applications and media galleries.
  *
  * **Key Features:**
- * - **Automatic Detection**: Uses `document.querySelectorAll('video')` for complete coverage
+ * - **Automatic Detection**: Finds every `<video>` in the document or in a scoped root container
  * - **Intelligent State Tracking**: Monitors HTML5 video readyState for accurate progress
- * - **Timeout Protection**: 7-second failsafe prevents stuck progress on broken videos
+ * - **Timeout Protection**: Configurable failsafe (7 seconds by default) reports stuck videos as timed out
  * - **Concurrent Loading**: Handles multiple videos loading simultaneously without conflicts
  * - **Error Resilience**: Failed/timed-out videos don't prevent overall completion
  *
@@ -19,7 +29,7 @@ import { Dispatch, SetStateAction } from "react";
  * 1. **Detection Phase**: Scans DOM for all `<video>` elements regardless of source
  * 2. **State Assessment**: Checks each video's current readyState (0-4 scale)
  * 3. **Event Monitoring**: Sets up listeners for videos still loading
- * 4. **Timeout Racing**: Races actual loading against 7-second timeout
+ * 4. **Timeout Racing**: Races actual loading against the configured timeout
  * 5. **State Updates**: Updates parent component state as videos complete or fail
  *
  * **HTML5 Video readyState Reference:**
@@ -43,38 +53,33 @@ import { Dispatch, SetStateAction } from "react";
  * - **Scalable**: Handles dozens of videos without performance degradation
  * - **Resource Aware**: Timeout prevents infinite resource consumption
  *
- * @param setLoadedCount - React state setter to increment successful video load count
- * @param setFailedCount - React state setter to increment failed video load count
+ * @param onAssetUpdate - Receives every video entry when discovered and when settled (loaded, failed or timed out)
+ * @param options - Optional root container or exact elements to track (defaults to the whole document),
+ *   the timeout in milliseconds (defaults to 7000), and the retry policy (no retries by default).
+ *   Pass a `signal` to cancel the scan and remove its listeners and timers.
+ *   `filter` skips videos for which it returns `false`.
  *
  * @returns Object containing the total number of video elements detected
  * @returns returns.totalVideos - Count of all `<video>` elements found on the page
  *
  * @example
  * ```typescript
- * // Basic integration with React state management
- * function VideoTracker() {
- *   const [loadedCount, setLoadedCount] = useState(0);
- *   const [failedCount, setFailedCount] = useState(0);
- *
- *   const { totalVideos } = scanVideos(setLoadedCount, setFailedCount);
- *
- *   return (
- *     <div>
- *       Videos: {loadedCount} loaded, {failedCount} failed of {totalVideos} total
- *     </div>
- *   );
- * }
+ * // Listing videos as they settle
+ * const { totalVideos } = scanVideos((asset) => {
+ *   if (asset.status !== "pending") {
+ *     console.log(`${asset.url} ${asset.status} after ${asset.endTime - asset.startTime}ms`);
+ *   }
+ * });
+ * console.log(`Tracking ${totalVideos} videos`);
  * ```
  *
  * @example
  * ```typescript
  * // Usage within asset loading system
  * useEffect(() => {
- *   const { totalVideos } = scanVideos(
- *     (count) => setTotalLoaded(prev => prev + count),
- *     (count) => setTotalFailed(prev => prev + count)
+ *   scanVideos((asset) =>
+ *     setAssets((prev) => [...prev.filter((a) => a.id !== asset.id), asset])
  *   );
- *   setTotalAssets(prev => prev + totalVideos);
  * }, []);
  * ```
  *
@@ -130,11 +135,25 @@ import { Dispatch, SetStateAction } from "react";
  * @see {@link https://developer.mozilla.org/en-US/docs/Web/HTML/Element/video} HTML Video Element
  */
 export function scanVideos(
-  setLoadedCount: Dispatch<SetStateAction<number>>,
-  setFailedCount: Dispatch<SetStateAction<number>>
+  onAssetUpdate: AssetUpdateHandler,
+  options: ScannerOptions<HTMLVideoElement> = {}
 ): { totalVideos: number } {
-  // Convert NodeList to Array for modern JavaScript array methods
-  const videos = Array.from(document.querySelectorAll("video"));
+  // Track the given elements, or discover every <video> inside the root
+  const {
+    root = document,
+    elements,
+    timeout = DEFAULT_TIMEOUT,
+    signal,
+    retry,
+    filter,
+  } = options;
+
+  // Stop reporting once the scan is cancelled
+  const report = guardAssetUpdates(onAssetUpdate, signal);
+
+  const videos = (elements ?? collectAssetElements(root).videos).filter(
+    (video) => filter?.(video) ?? true
+  );
   const totalVideos = videos.length;
 
   /**
@@ -147,84 +166,113 @@ export function scanVideos(
    * - State updates happen as videos complete individually
    */
   const videoPromises = videos.map((video) => {
-    /**
-     * Primary loading promise: Natural video loading progression
-     *
-     * Monitors the video's natural loading process through HTML5 media events
-     * and readyState progression. This represents the "happy path" where videos
-     * load successfully within reasonable timeframes.
-     */
-    const videoLoadingPromise = new Promise<"loaded" | "failed">((resolve) => {
-      /**
-       * Fast path: Check if video is already sufficiently loaded
-       *
-       * readyState >= 4 (HAVE_ENOUGH_DATA) indicates the browser has downloaded
-       * enough video data to play through to completion without buffering.
-       * This commonly occurs with:
-       * - Cached videos from previous page visits
-       * - Small video files that load very quickly
-       * - Videos with aggressive preloading (preload="auto")
-       */
-      if (video.readyState >= 4) {
-        resolve("loaded");
-        return;
-      }
+    const asset = createTrackedAsset("video", resolveMediaUrl(video), video);
+    report(asset);
 
+    /** Waits for one loading attempt of the video to settle */
+    const waitForVideo = () => {
       /**
-       * Slow path: Set up event listeners for videos still loading
+       * Primary loading promise: Natural video loading progression
        *
-       * For videos not yet fully buffered (readyState 0-3), we monitor
-       * HTML5 media events to detect when they become playable or encounter errors.
+       * Monitors the video's natural loading process through HTML5 media events
+       * and readyState progression. This represents the "happy path" where videos
+       * load successfully within reasonable timeframes.
        */
+      const videoLoadingPromise = new Promise<"loaded" | "failed">((resolve) => {
+        /**
+         * Fast path: Check if video is already sufficiently loaded
+         *
+         * readyState >= 4 (HAVE_ENOUGH_DATA) indicates the browser has downloaded
+         * enough video data to play through to completion without buffering.
+         * This commonly occurs with:
+         * - Cached videos from previous page visits
+         * - Small video files that load very quickly
+         * - Videos with aggressive preloading (preload="auto")
+         */
+        if (video.readyState >= 4) {
+          resolve("loaded");
+          return;
+        }
 
-      /**
-       * Success event: 'canplay'
-       * Fires when the browser can start playing the video, even if not fully downloaded.
-       * This is the most reliable indicator that a video is "ready" for user interaction.
-       */
-      video.addEventListener("canplay", () => resolve("loaded"), {
-        once: true,
+        /**
+         * Slow path: Set up event listeners for videos still loading
+         *
+         * For videos not yet fully buffered (readyState 0-3), we monitor
+         * HTML5 media events to detect when they become playable or encounter errors.
+         */
+
+        /**
+         * Success event: 'canplay'
+         * Fires when the browser can start playing the video, even if not fully downloaded.
+         * This is the most reliable indicator that a video is "ready" for user interaction.
+         */
+        video.addEventListener("canplay", () => resolve("loaded"), {
+          once: true,
+          signal,
+        });
+
+        /**
+         * Failure event: 'error'
+         * Fires when video loading encounters an error such as:
+         * - 404 Not Found (missing video file)
+         * - Network connectivity issues
+         * - Unsupported video format/codec
+         * - CORS (Cross-Origin Resource Sharing) violations
+         * - Corrupted video file data
+         */
+        video.addEventListener("error", () => resolve("failed"), {
+          once: true,
+          signal,
+        });
       });
 
       /**
-       * Failure event: 'error'
-       * Fires when video loading encounters an error such as:
-       * - 404 Not Found (missing video file)
-       * - Network connectivity issues
-       * - Unsupported video format/codec
-       * - CORS (Cross-Origin Resource Sharing) violations
-       * - Corrupted video file data
+       * Timeout promise: Failsafe for problematic videos
+       *
+       * Critical for preventing progress tracking from getting permanently stuck.
+       * After the timeout (7 seconds by default), marks the video as "timed-out"
+       * regardless of its actual loading state. The default duration is chosen based on:
+       *
+       * - **User Experience**: 7s is the maximum users will typically wait
+       * - **Network Realities**: Most video loading issues surface within 5-7 seconds
+       * - **Browser Behavior**: Some browser bugs never trigger error events
+       * - **Performance Impact**: Prevents indefinite resource consumption
        */
-      video.addEventListener("error", () => resolve("failed"), { once: true });
-    });
+      const timeoutPromise = waitForTimeout(timeout, signal);
 
-    /**
-     * Timeout promise: Failsafe for problematic videos
-     *
-     * Critical for preventing progress tracking from getting permanently stuck.
-     * After 7 seconds, automatically marks the video as "failed" regardless of
-     * its actual loading state. This timeout duration is chosen based on:
-     *
-     * - **User Experience**: 7s is the maximum users will typically wait
-     * - **Network Realities**: Most video loading issues surface within 5-7 seconds
-     * - **Browser Behavior**: Some browser bugs never trigger error events
-     * - **Performance Impact**: Prevents indefinite resource consumption
-     */
-    const timeoutPromise = new Promise<"loaded" | "failed">((resolve) =>
-      setTimeout(() => resolve("failed"), 7000)
-    );
+      /**
+       * Promise.race(): First resolution wins
+       *
+       * This creates a race condition between:
+       * 1. Natural video loading (success or error events)
+       * 2. The configured timeout (reported as "timed-out")
+       *
+       * Whichever Promise resolves first determines the final result,
+       * ensuring every video eventually reaches a concluded state.
+       */
+      return Promise.race([videoLoadingPromise, timeoutPromise]);
+    };
 
     /**
-     * Promise.race(): First resolution wins
-     *
-     * This creates a race condition between:
-     * 1. Natural video loading (success or error events)
-     * 2. 7-second timeout (automatic failure)
-     *
-     * Whichever Promise resolves first determines the final result,
-     * ensuring every video eventually reaches a concluded state.
+     * Retry policy: a failed or timed-out video is reloaded (optionally with
+     * cache-busting) and reported as "retrying" until an attempt succeeds or
+     * the attempts run out. Each attempt gets its own timeout.
      */
-    return Promise.race([videoLoadingPromise, timeoutPromise]);
+    return {
+      video,
+      result: loadWithRetry(
+        asset,
+        (attempt) => {
+          if (attempt > 1) {
+            reloadMedia(video, attempt, retry?.cacheBust);
+          }
+          return waitForVideo();
+        },
+        report,
+        retry,
+        signal
+      ),
+    };
   });
 
   /**
@@ -234,26 +282,15 @@ export function scanVideos(
    * fails, or times out. This enables real-time progress updates as
    * individual videos finish loading.
    */
-  videoPromises.forEach((videoPromise) => {
-    videoPromise.then((result) => {
-      if (result === "loaded") {
-        /**
-         * Success case: Video became playable within timeout period
-         *
-         * Uses functional state update for thread-safe concurrent modifications.
-         * This prevents race conditions when multiple videos complete simultaneously.
-         */
-        setLoadedCount((previousCount) => previousCount + 1);
-      } else {
-        /**
-         * Failure case: Video failed to load or exceeded timeout
-         *
-         * Both natural failures (network errors, format issues) and timeout failures
-         * count toward completion to ensure progress tracking always reaches 100%.
-         * This prevents stuck loading states that frustrate users.
-         */
-        setFailedCount((previousCount) => previousCount + 1);
-      }
+  videoPromises.forEach(({ video, result }) => {
+    result.then(({ asset, outcome }) => {
+      /**
+       * Report the settled entry with the source the browser actually selected
+       *
+       * Natural failures (error events) are reported as "failed" and timeouts as
+       * "timed-out"; both count toward completion so progress always reaches 100%.
+       */
+      report(settleTrackedAsset(asset, outcome, resolveMediaUrl(video)));
     });
   });
 